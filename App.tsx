@@ -1,79 +1,664 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Upload, X, RefreshCw, AlertTriangle, ShieldCheck, Download, Gift, Snowflake, Share2 } from 'lucide-react';
+import { Upload, X, RefreshCw, AlertTriangle, Download, Share2, History, Volume2, VolumeX, Users, Camera, Crop, ShieldCheck, Languages } from 'lucide-react';
 import Clock from './components/Clock';
 import SoundEffect from './components/SoundEffect';
-import { generateCharacterImage } from './services/geminiService';
-import { AppState, ThemeMode } from './types';
+import VariantGallery from './components/VariantGallery';
+import HistoryDrawer from './components/HistoryDrawer';
+import ExportMenu from './components/ExportMenu';
+import TargetPicker from './components/TargetPicker';
+import CelebrationScreen from './components/CelebrationScreen';
+import SplitScreen from './components/SplitScreen';
+import SubjectRoster from './components/SubjectRoster';
+import CameraCapture from './components/CameraCapture';
+import CropEditor from './components/CropEditor';
+import BriefingForm from './components/BriefingForm';
+import ConsentGate from './components/ConsentGate';
+import AttractLoop from './components/AttractLoop';
+import HandoffQr from './components/HandoffQr';
+import FieldAdjustments from './components/FieldAdjustments';
+import { editPoster, generateCharacterImage, generateTeamPoster, getImageProvider } from './services/imageService';
+import { GenerationError, toGenerationError } from './services/generationErrors';
+import { runWithConcurrency } from './services/concurrency';
+import { clearHistory, saveToHistory } from './services/historyService';
+import { resizeImage } from './services/imageUtils';
+import { ACCEPTED_UPLOAD_LABEL, MAX_UPLOAD_BYTES, PreparedUpload, UploadError, prepareCapture, prepareUpload, toUploadError } from './services/uploadPipeline';
+import { MAX_GROUP_SUBJECTS, MIN_GROUP_SUBJECTS } from './services/teamPoster';
+import { PosterFormat, PosterSize, downloadBlob, exportPoster, posterFileName } from './services/posterExport';
+import { ClipFormat, clipFileName, exportClip } from './services/clipExport';
+import { audioEngine } from './services/audioEngine';
+import { ticker } from './services/ticker';
+import { buildPrompt, normalizeBriefing } from './services/promptBuilder';
+import { clearStoredConsent, hasStoredConsent, storeConsent } from './services/consent';
+import { EVENT_IDLE_MS, isEventMode, watchIdle } from './services/eventMode';
+import { revokeAllObjectUrls } from './services/objectUrls';
+import { createHandoff, deleteHandoff, fetchKioskConfig } from './services/kiosk';
+import { EditStack, appliedInstructions, createEditStack, currentVersion, pushEdit, redoEdit, selectVersion, undoEdit } from './services/editStack';
+import { detectLocale, formatMessage, storeLocale } from './services/i18n';
+import { applyClockDisplayToSearch, applyTargetToSearch, clockDisplayFromSearch, countdownStatus, targetFromSearch, targetLabel } from './services/countdownTarget';
+import { AppState, BriefingValues, ClockDisplay, CountdownTarget, GeneratedImage, GenerationErrorKind, GenerationVariant, GroupSubject, HandoffTicket, KioskConfig, LocaleId, ThemeMode } from './types';
+import { DEFAULT_THEME, getTheme, nextTheme, setThemeBranding } from './themes';
+import { LOCALES, LOCALE_ORDER, getLocale } from './locales';
+
+const MAX_VARIANTS = 4;
+// How many variant requests may be in flight at once
+const VARIANT_CONCURRENCY = 2;
+const THUMBNAIL_WIDTH = 160;
+// 1 is the single full-frame feed; more is the split screen
+const MAX_SPLIT_PANELS = 4;
+// setTimeout can't wait longer than ~24.8 days, so re-check the countdown at least hourly
+const MAX_STATUS_CHECK_MS = 60 * 60 * 1000;
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [theme, setTheme] = useState<ThemeMode>('24');
+  const [theme, setTheme] = useState<ThemeMode>(DEFAULT_THEME);
+  const [locale, setLocale] = useState<LocaleId>(() => detectLocale(window.location.search));
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  // Uncropped original behind uploadedImage, for reframing
+  const [uploadSource, setUploadSource] = useState<string | null>(null);
+  const [cropOpen, setCropOpen] = useState(false);
+  const [groupMode, setGroupMode] = useState(false);
+  const [briefing, setBriefing] = useState<BriefingValues>({});
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [uploadError, setUploadError] = useState<UploadError | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [subjects, setSubjects] = useState<GroupSubject[]>([]);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [tickActive, setTickActive] = useState(false);
-  const [targetChristmas, setTargetChristmas] = useState<Date>(new Date());
+  const [variantCount, setVariantCount] = useState(1);
+  const [variants, setVariants] = useState<GenerationVariant[]>([]);
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportSize, setExportSize] = useState<PosterSize>('story');
+  const [exportFormat, setExportFormat] = useState<PosterFormat>('png');
+  const [exporting, setExporting] = useState(false);
+  const [exportFailed, setExportFailed] = useState(false);
+  const [clipProgress, setClipProgress] = useState<number | null>(null);
+  const [panelCount, setPanelCount] = useState(1);
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
+  // Field adjustments: versions of the current poster and the edit in flight
+  const [edits, setEdits] = useState<EditStack | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [editError, setEditError] = useState<GenerationError | null>(null);
+  const [muted, setMuted] = useState(audioEngine.isMuted());
+  const [volume, setVolume] = useState(audioEngine.getVolume());
+  const [countdownTarget, setCountdownTarget] = useState<CountdownTarget>(() => targetFromSearch(window.location.search));
+  const [countdown, setCountdown] = useState(() => countdownStatus(countdownTarget));
+  const [clockDisplay, setClockDisplay] = useState<ClockDisplay>(() => clockDisplayFromSearch(window.location.search));
+  const [statusCheck, setStatusCheck] = useState(0);
+  const [celebrationDismissed, setCelebrationDismissed] = useState(false);
+  // Shared devices ask every visitor, so event mode never remembers consent
+  const [consented, setConsented] = useState(() => !isEventMode && hasStoredConsent());
+  // Upload action held back until the consent gate is answered
+  const [pendingUpload, setPendingUpload] = useState<(() => void) | null>(null);
+  // Set when the local server runs in kiosk mode (see services/kiosk.ts)
+  const [kiosk, setKiosk] = useState<KioskConfig | null>(null);
+  const [attractActive, setAttractActive] = useState(false);
+  const [handoff, setHandoff] = useState<HandoffTicket | null>(null);
+  const [handoffPending, setHandoffPending] = useState(false);
+  const [handoffFailed, setHandoffFailed] = useState(false);
+  // The guest's hand-off request, kept so it can be deleted from the server
+  // when the session ends, even if the upload is still in flight
+  const handoffRef = useRef<{ ticket: HandoffTicket | null; discarded: boolean } | null>(null);
+
+  // A kiosk is a shared device too, with its own idle timeout
+  const sharedDevice = isEventMode || kiosk !== null;
+  const idleMs = kiosk ? kiosk.idleSeconds * 1000 : EVENT_IDLE_MS;
   
+  // Fields differ per theme; unknown or missing ones fall back to defaults
+  const briefingValues = normalizeBriefing(theme, briefing);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const groupInputRef = useRef<HTMLInputElement>(null);
+  // Controller for the in-flight generation; replaced on every new request
+  const generationRef = useRef<AbortController | null>(null);
+  // Same for the follow-up edit in flight
+  const editRef = useRef<AbortController | null>(null);
+  // And for the clip being recorded, so a reset stops it
+  const clipRef = useRef<AbortController | null>(null);
 
-  // Set next Christmas
+  // Keep the URL in sync so shared links open to the same countdown
   useEffect(() => {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const xmas = new Date(currentYear, 11, 25); // Month is 0-indexed (11 = Dec)
-    if (now > xmas) {
-      xmas.setFullYear(currentYear + 1);
-    }
-    setTargetChristmas(xmas);
+    const search = applyClockDisplayToSearch(applyTargetToSearch(window.location.search, countdownTarget), clockDisplay);
+    window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+  }, [countdownTarget, clockDisplay]);
+
+  // A new poster (fresh result, promoted variant, reopened history) starts a
+  // new edit stack; undo, redo and edits move within the existing one
+  useEffect(() => {
+    if (edits?.versions.some(version => version.imageUrl === generatedImage)) return;
+    cancelEdit();
+    setEditError(null);
+    setEdits(generatedImage ? createEditStack(generatedImage) : null);
+  }, [generatedImage]);
+
+  // Kiosk config comes from the local server; without one this is a no-op
+  useEffect(() => {
+    let cancelled = false;
+    fetchKioskConfig().then(config => {
+      if (cancelled || !config) return;
+      setThemeBranding(config.branding);
+      if (config.theme) setTheme(config.theme);
+      setConsented(false);
+      setKiosk(config);
+      setAttractActive(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('kiosk', kiosk !== null);
+  }, [kiosk]);
+
+  // A different variant promoted, or the poster gone: its link no longer applies
+  useEffect(() => () => discardHandoff(), [generatedImage]);
+
+  // Text direction and language follow the chosen locale for the whole page
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = getLocale(locale).dir;
+  }, [locale]);
+
+  // Re-evaluate the countdown when the target changes and whenever it is next
+  // due to flip between counting and celebrating (including the yearly rollover)
+  useEffect(() => {
+    const now = ticker.now();
+    const status = countdownStatus(countdownTarget, new Date(now));
+    setCountdown(status);
+    if (status.phase === 'counting') setCelebrationDismissed(false);
+
+    const delay = Math.min(+status.nextChange - now, MAX_STATUS_CHECK_MS);
+    const timer = setTimeout(() => setStatusCheck(n => n + 1), Math.max(0, delay) + 50);
+    return () => clearTimeout(timer);
+  }, [countdownTarget, statusCheck]);
+
+  // Paste a photo straight from the clipboard while setting up
+  useEffect(() => {
+    if (appState === AppState.PROCESSING || appState === AppState.COMPLETE || cameraOpen) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.length === 0) return;
+      e.preventDefault();
+      withConsent(() => acceptFiles(files));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  // Event and kiosk mode: wipe the session once it sits idle with anything
+  // in it (or, on a kiosk, once it sits idle outside the attract loop).
+  // Paused while generating, since waiting on the model isn't inactivity.
+  const hasSessionData = consented || !!uploadedImage || subjects.length > 0 || !!generatedImage || (kiosk !== null && !attractActive);
+  useEffect(() => {
+    if (!sharedDevice || !hasSessionData || appState === AppState.PROCESSING) return;
+    return watchIdle(idleMs, wipeSession);
+  }, [sharedDevice, idleMs, hasSessionData, appState]);
+
+  // Browsers only allow audio to start from a user gesture
+  useEffect(() => {
+    const unlock = () => {
+      audioEngine.unlock().catch(error => console.warn("Audio unlock failed:", error));
+    };
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
   }, []);
 
-  const handleTick = () => {
-    setTickActive(true);
-    setTimeout(() => setTickActive(false), 50); // Sharp tick
+  // One tick sound per second from the shared ticker, however many clocks are mounted
+  useEffect(() => ticker.subscribe(() => {
+    audioEngine.playTick(getTheme(theme).sound.tick);
+  }), [theme]);
+
+  const toggleMute = () => {
+    audioEngine.setMuted(!muted);
+    setMuted(!muted);
+  };
+
+  const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    audioEngine.setVolume(value);
+    setVolume(value);
+    if (muted && value > 0) {
+      audioEngine.setMuted(false);
+      setMuted(false);
+    }
+  };
+
+  // Photos are only taken or accepted once the visitor has agreed to the
+  // privacy notice; the first attempt opens the gate and resumes on accept
+  const withConsent = (action: () => void) => {
+    if (consented) {
+      action();
+    } else {
+      setPendingUpload(() => action);
+    }
+  };
+
+  const handleConsentAccept = () => {
+    if (!sharedDevice) storeConsent();
+    setConsented(true);
+    pendingUpload?.();
+    setPendingUpload(null);
+  };
+
+  // Withdrawing consent also deletes every saved poster and face thumbnail
+  const withdrawConsent = () => {
+    clearStoredConsent();
+    setConsented(false);
+    reset();
+    clearHistory()
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(error => console.warn("Could not clear history:", error));
+  };
+
+  // Picked, dropped and pasted files all go through the preprocessing
+  // pipeline (validation, EXIF orientation, 3:4 crop)
+  const acceptFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setUploadError(null);
+
+    const batch = groupMode ? files.slice(0, MAX_GROUP_SUBJECTS - subjects.length) : files.slice(0, 1);
+    const results = await Promise.allSettled(batch.map(prepareUpload));
+    const prepared = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (rejected) {
+      console.warn("Upload rejected:", rejected.reason);
+      setUploadError(toUploadError(rejected.reason));
+    }
+    if (prepared.length === 0) return;
+
+    if (groupMode) {
+      const added = prepared.map(({ image }, i) => ({ id: `${Date.now()}-${i}`, image }));
+      setSubjects(prev => [...prev, ...added].slice(0, MAX_GROUP_SUBJECTS));
+    } else {
+      showCropStep(prepared[0]);
+    }
+    setAppState(AppState.IDLE); // Reset state if re-uploading
+    setGenerationError(null);
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setUploadedImage(reader.result as string);
-        setAppState(AppState.IDLE); // Reset state if re-uploading
-        setErrorMessage(null);
-      };
-      reader.readAsDataURL(file);
+    acceptFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again after a rejection
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (appState === AppState.PROCESSING || cameraOpen) return;
+    e.preventDefault();
+    setDragActive(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    if (appState === AppState.PROCESSING || cameraOpen) return;
+    const files: File[] = Array.from(e.dataTransfer.files);
+    withConsent(() => acceptFiles(files));
+  };
+
+  // Start from the default centre crop and let the user reframe it
+  const showCropStep = ({ source, image }: PreparedUpload) => {
+    setUploadSource(source);
+    setUploadedImage(image);
+    setCropOpen(true);
+  };
+
+  const handleCropApply = (dataUrl: string) => {
+    setUploadedImage(dataUrl);
+    setCropOpen(false);
+  };
+
+  const handleCropError = (error: UploadError) => {
+    setUploadError(error);
+    setCropOpen(false);
+  };
+
+  // Camera shots skip validation but still get the crop step
+  const handleCameraCapture = async (dataUrl: string) => {
+    setCameraOpen(false);
+    setUploadError(null);
+    try {
+      showCropStep(await prepareCapture(dataUrl));
+      setAppState(AppState.IDLE);
+      setGenerationError(null);
+    } catch (error) {
+      setUploadError(toUploadError(error));
     }
   };
 
+  const removeSubject = (id: string) => {
+    setSubjects(prev => prev.filter(subject => subject.id !== id));
+  };
+
+  const moveSubject = (id: string, offset: number) => {
+    setSubjects(prev => {
+      const from = prev.findIndex(subject => subject.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  const canGenerate = groupMode ? subjects.length >= MIN_GROUP_SUBJECTS : !!uploadedImage;
+
+  // Abort the in-flight request so its response can never land in state
+  const cancelGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+  };
+
+  const cancelClip = () => {
+    clipRef.current?.abort();
+    clipRef.current = null;
+    setExporting(false);
+    setClipProgress(null);
+  };
+
+  const cancelEdit = () => {
+    editRef.current?.abort();
+    editRef.current = null;
+    setEditing(false);
+  };
+
+  // Field adjustments: apply a follow-up instruction to the poster on show,
+  // with the instructions behind it as context
+  const handleEdit = async (instruction: string) => {
+    if (!edits || !generatedImage) return;
+    cancelEdit();
+    const controller = new AbortController();
+    editRef.current = controller;
+    setEditing(true);
+    setEditError(null);
+
+    try {
+      const imageUrl = await editPoster(generatedImage, instruction, theme, { signal: controller.signal, history: appliedInstructions(edits), locale });
+      setEdits(prev => prev && pushEdit(prev, imageUrl, instruction));
+      setGeneratedImage(imageUrl);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Edit failed:", error);
+      setEditError(toGenerationError(error));
+    } finally {
+      if (editRef.current === controller) {
+        editRef.current = null;
+        setEditing(false);
+      }
+    }
+  };
+
+  const moveInEdits = (move: (stack: EditStack) => EditStack) => {
+    if (!edits) return;
+    const next = move(edits);
+    setEdits(next);
+    setEditError(null);
+    setGeneratedImage(currentVersion(next).imageUrl);
+  };
+
   const handleGenerate = async () => {
-    if (!uploadedImage) return;
+    if (!canGenerate) return;
+    // Snapshot the inputs so edits mid-run don't change later variants
+    const sourceImages = groupMode ? subjects.map(subject => subject.image) : [uploadedImage!];
+
+    cancelGeneration();
+    const controller = new AbortController();
+    generationRef.current = controller;
+
+    // Ignore responses from a cancelled or superseded request
+    const isCurrent = () => generationRef.current === controller;
+    const updateVariant = (id: string, patch: Partial<GenerationVariant>) => {
+      if (!isCurrent()) return;
+      setVariants(prev => prev.map(v => (v.id === id ? { ...v, ...patch } : v)));
+    };
+
+    const runId = Date.now();
+    const queued: GenerationVariant[] = Array.from({ length: variantCount }, (_, i) => ({
+      id: `${runId}-${i}`,
+      status: 'queued',
+    }));
 
+    setVariants(queued);
+    setSelectedVariantId(null);
+    setGeneratedImage(null);
     setAppState(AppState.PROCESSING);
-    setErrorMessage(null);
-    try {
-      const result = await generateCharacterImage(uploadedImage, theme);
-      setGeneratedImage(result);
+    setGenerationError(null);
+
+    const prompt = buildPrompt(theme, briefingValues, { group: groupMode, locale });
+    // Made on the first saved result, then shared by every variant's record
+    let thumbnailPromise: Promise<string> | null = null;
+    const recordResult = async (imageUrl: string) => {
+      // Nothing is kept on a shared device
+      if (sharedDevice) return;
+      try {
+        thumbnailPromise ??= resizeImage(sourceImages[0], THUMBNAIL_WIDTH);
+        await saveToHistory({ imageUrl, prompt, briefing: briefingValues, sourceThumbnail: await thumbnailPromise, theme });
+        setHistoryVersion(v => v + 1);
+      } catch (error) {
+        console.warn("Could not save to history:", error);
+      }
+    };
+
+    const results = await runWithConcurrency(queued.map(variant => async () => {
+      updateVariant(variant.id, { status: 'running' });
+      try {
+        const imageUrl = groupMode
+          ? await generateTeamPoster(sourceImages, theme, { signal: controller.signal, briefing: briefingValues, locale })
+          : await generateCharacterImage(sourceImages[0], theme, { signal: controller.signal, briefing: briefingValues, locale });
+        updateVariant(variant.id, { status: 'done', imageUrl });
+        if (isCurrent()) recordResult(imageUrl);
+        return imageUrl;
+      } catch (error) {
+        const generationError = toGenerationError(error);
+        updateVariant(variant.id, { status: 'failed', errorKind: generationError.kind });
+        throw generationError;
+      }
+    }), VARIANT_CONCURRENCY);
+
+    if (!isCurrent()) return;
+    generationRef.current = null;
+
+    // Keep a pick made mid-run, else promote the first success.
+    // Only fail the run if every variant failed.
+    const firstSuccess = results.findIndex(result => result.status === 'fulfilled');
+    if (firstSuccess >= 0) {
+      const { value } = results[firstSuccess] as PromiseFulfilledResult<string>;
+      setSelectedVariantId(prev => prev ?? queued[firstSuccess].id);
+      setGeneratedImage(prev => prev ?? value);
       setAppState(AppState.COMPLETE);
-    } catch (error: any) {
-      console.error("Caught error in App:", error);
-      setErrorMessage(error.message || "An unexpected error occurred.");
+      audioEngine.playSting(getTheme(theme).sound.sting);
+    } else {
+      const { reason } = results[0] as PromiseRejectedResult;
+      console.error("Caught error in App:", reason);
+      setGenerationError(toGenerationError(reason));
       setAppState(AppState.ERROR);
     }
   };
 
+  // Bring a stored result back into the cinematic view
+  const reopenFromHistory = (record: GeneratedImage) => {
+    cancelGeneration();
+    setTheme(record.theme);
+    setUploadedImage(null);
+    setUploadSource(null);
+    setVariants([]);
+    setSelectedVariantId(null);
+    setGenerationError(null);
+    setGeneratedImage(record.imageUrl);
+    setAppState(AppState.COMPLETE);
+    setHistoryOpen(false);
+  };
+
+  const promoteVariant = (variant: GenerationVariant) => {
+    if (!variant.imageUrl) return;
+    setSelectedVariantId(variant.id);
+    setGeneratedImage(variant.imageUrl);
+  };
+
+  const handleAbort = () => {
+    cancelGeneration();
+    setAppState(AppState.IDLE);
+  };
+
   const reset = () => {
+    cancelGeneration();
+    cancelEdit();
+    cancelClip();
     setAppState(AppState.IDLE);
     setUploadedImage(null);
+    setUploadSource(null);
+    setCropOpen(false);
+    setSubjects([]);
+    setCameraOpen(false);
+    setUploadError(null);
     setGeneratedImage(null);
-    setErrorMessage(null);
+    setVariants([]);
+    setSelectedVariantId(null);
+    setGenerationError(null);
+    setExportOpen(false);
+    setExportFailed(false);
+    discardHandoff();
     if (fileInputRef.current) fileInputRef.current.value = '';
+    if (groupInputRef.current) groupInputRef.current.value = '';
+    revokeAllObjectUrls();
+  };
+
+  // Event and kiosk mode: hand the device to the next visitor with nothing left behind
+  const wipeSession = () => {
+    reset();
+    setHistoryOpen(false);
+    setBriefing({});
+    setGroupMode(false);
+    setPanelCount(1);
+    setPendingUpload(null);
+    setConsented(false);
+    if (kiosk) setAttractActive(true);
+  };
+
+  const startKioskSession = () => {
+    setAttractActive(false);
+    // Not every browser allows it, and a kiosk browser may already be full screen
+    if (!document.fullscreenElement) document.documentElement.requestFullscreen?.().catch(() => {});
+  };
+
+  // Unlike the theme, switching language keeps the session as it is
+  const handleLocaleChange = (next: LocaleId) => {
+    setLocale(next);
+    storeLocale(next);
   };
 
   const toggleTheme = () => {
-    setTheme(prev => prev === '24' ? 'ELF' : '24');
+    setTheme(prev => nextTheme(prev));
     // Reset if we switch themes to avoid confusion
     if (appState === AppState.COMPLETE) {
       reset();
+    } else if (appState === AppState.PROCESSING) {
+      handleAbort();
+    }
+  };
+
+  const activeTheme = getTheme(theme, locale);
+  const messages = getLocale(locale).messages;
+  const themeToggleLabel = formatMessage(messages.a11y.themeToggle, { current: activeTheme.name, next: getTheme(nextTheme(theme), locale).name });
+  const imageProvider = getImageProvider();
+
+  // Composite the poster (image + overlays + countdown as of now)
+  const renderPoster = (format: PosterFormat = exportFormat) => {
+    if (!generatedImage) return Promise.reject(new Error("No image to export."));
+    return exportPoster({ imageUrl: generatedImage, theme, locale, targetDate: countdown.targetDate, display: clockDisplay, size: exportSize, format });
+  };
+
+  // Kiosk mode: the poster only goes to the server when the guest asks
+  const requestHandoff = () => {
+    if (handoffRef.current) return;
+    const request = { ticket: null as HandoffTicket | null, discarded: false };
+    handoffRef.current = request;
+    setHandoffPending(true);
+    setHandoffFailed(false);
+    renderPoster('jpeg')
+      .then(blob => createHandoff(blob, locale))
+      .then(ticket => {
+        // The session ended mid-upload; don't leave the poster behind
+        if (request.discarded) return removeHandoff(ticket);
+        request.ticket = ticket;
+        setHandoff(ticket);
+      })
+      .catch(error => {
+        if (request.discarded) return;
+        console.error("Hand-off failed:", error);
+        handoffRef.current = null;
+        setHandoffFailed(true);
+      })
+      .finally(() => {
+        if (!request.discarded) setHandoffPending(false);
+      });
+  };
+
+  const removeHandoff = (ticket: HandoffTicket) =>
+    deleteHandoff(ticket.token).catch(error => console.warn("Could not delete hand-off:", error));
+
+  const discardHandoff = () => {
+    const request = handoffRef.current;
+    handoffRef.current = null;
+    if (request) {
+      request.discarded = true;
+      if (request.ticket) removeHandoff(request.ticket);
+    }
+    setHandoff(null);
+    setHandoffPending(false);
+    setHandoffFailed(false);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setExportFailed(false);
+    try {
+      const blob = await renderPoster();
+      downloadBlob(blob, posterFileName(theme, exportSize, exportFormat));
+      setExportOpen(false);
+    } catch (error) {
+      console.error("Error exporting poster:", error);
+      setExportFailed(true);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportClip = async (format: ClipFormat) => {
+    if (!generatedImage) return;
+    clipRef.current?.abort();
+    const controller = new AbortController();
+    clipRef.current = controller;
+    setExporting(true);
+    setExportFailed(false);
+    setClipProgress(0);
+    try {
+      const blob = await exportClip({
+        imageUrl: generatedImage,
+        theme,
+        locale,
+        targetDate: countdown.targetDate,
+        display: clockDisplay,
+        size: exportSize,
+        format,
+        onProgress: setClipProgress,
+        signal: controller.signal,
+      });
+      downloadBlob(blob, clipFileName(theme, exportSize, format));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Error exporting clip:", error);
+      setExportFailed(true);
+    } finally {
+      if (clipRef.current === controller) {
+        clipRef.current = null;
+        setExporting(false);
+        setClipProgress(null);
+      }
     }
   };
 
@@ -81,24 +666,25 @@ const App: React.FC = () => {
     if (!generatedImage) return;
 
     try {
-      const response = await fetch(generatedImage);
-      const blob = await response.blob();
-      const file = new File([blob], `protocol-${theme.toLowerCase()}.png`, { type: 'image/png' });
+      const blob = await renderPoster();
+      const file = new File([blob], posterFileName(theme, exportSize, exportFormat), { type: blob.type });
       const shareData = {
         files: [file],
-        title: theme === 'ELF' ? 'The North Pole Protocol' : 'The 24 Christmas Protocol',
-        text: theme === 'ELF' ? 'I made this with The North Pole Protocol!' : 'The following takes place between now and Christmas Day.',
+        title: activeTheme.share.title,
+        text: activeTheme.share.text,
+        url: window.location.href,
       };
 
       if (navigator.share && navigator.canShare && navigator.canShare(shareData)) {
         await navigator.share(shareData);
       } else {
-        // Fallback to clipboard
+        // Fallback to clipboard, which only reliably accepts PNG
         try {
-           await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
-           alert("Image copied to clipboard!"); 
+           const pngBlob = blob.type === 'image/png' ? blob : await renderPoster('png');
+           await navigator.clipboard.write([new ClipboardItem({ [pngBlob.type]: pngBlob })]);
+           alert(messages.share.copied);
         } catch (e) {
-           alert("Sharing is not supported on this device. Please use the download button.");
+           alert(messages.share.unsupported);
         }
       }
     } catch (error) {
@@ -107,79 +693,107 @@ const App: React.FC = () => {
   };
 
   // Theme-based Styles
-  const isElf = theme === 'ELF';
-  
-  const bgClass = isElf ? "bg-emerald-950" : "bg-black";
-  const textClass = isElf ? "font-serif text-red-50" : "font-mono text-white";
-  const accentColorClass = isElf ? "text-red-500" : "text-yellow-500";
-  const buttonBgClass = isElf ? "bg-red-700 hover:bg-red-600" : "bg-yellow-600 hover:bg-yellow-500";
-  const buttonTextClass = isElf ? "text-white" : "text-black";
-  const borderColorClass = isElf ? "border-red-900/50" : "border-gray-800";
-  const containerClass = isElf ? "bg-emerald-900/30 border-emerald-800" : "bg-gray-900/30 border-gray-800";
-  const dropZoneHoverClass = isElf ? "hover:border-red-500/50 hover:bg-red-900/10" : "hover:border-yellow-500/50 hover:bg-yellow-900/5";
+  const { palette, fonts, copy, icons } = activeTheme;
+  const ToggleIcon = icons.toggle;
+  const ActionIcon = icons.action;
+  const BrandIcon = icons.brand;
+  const OrnamentIcon = icons.ornament;
 
   return (
-    <div className={`min-h-screen ${bgClass} ${textClass} relative flex flex-col items-center transition-colors duration-500`}>
+    <div className={`min-h-screen ${palette.background} ${palette.text} relative flex flex-col items-center transition-colors duration-500`}>
       {/* Background Ambience */}
-      {isElf ? (
-         <>
-          {/* Simple CSS Snow effect */}
-          <div className="absolute inset-0 z-0 opacity-20 pointer-events-none" style={{ backgroundImage: 'radial-gradient(white 1px, transparent 1px)', backgroundSize: '40px 40px' }}></div>
-         </>
-      ) : (
-         <>
-          <div className="absolute inset-0 scanline z-10 pointer-events-none"></div>
-          <div className="absolute inset-0 z-0 opacity-10" 
-               style={{ backgroundImage: 'linear-gradient(#333 1px, transparent 1px), linear-gradient(90deg, #333 1px, transparent 1px)', backgroundSize: '40px 40px' }}>
-          </div>
-         </>
+      {activeTheme.ambience.scanlines && (
+         <div className="absolute inset-0 scanline z-10 pointer-events-none"></div>
       )}
+      <div className={`absolute inset-0 z-0 ${activeTheme.ambience.className}`} style={activeTheme.ambience.style}></div>
 
-      {/* Sound Effect Visualizer Line */}
-       <div className={`fixed top-0 left-0 w-full h-full pointer-events-none z-50 overflow-hidden flex items-center justify-center opacity-20`}>
-          {tickActive && (
-             <div className={`w-full h-1 absolute top-1/2 animate-ping shadow-[0_0_50px_20px_rgba(255,255,255,0.5)] ${isElf ? 'bg-white' : 'bg-yellow-500 shadow-[0_0_50px_20px_rgba(234,179,8,0.8)]'}`}></div>
-          )}
-       </div>
+      {/* Sound Effect Visualizer Lines */}
+      <SoundEffect theme={theme} />
 
       {/* Header */}
-      <header className={`w-full p-6 flex justify-between items-center z-20 border-b ${borderColorClass} ${isElf ? 'bg-emerald-950/90' : 'bg-black/90'} backdrop-blur-md transition-colors duration-500`}>
+      <header className={`w-full p-6 flex justify-between items-center z-20 border-b ${palette.border} ${palette.headerBackground} backdrop-blur-md transition-colors duration-500`}>
         <div className="flex items-center gap-3">
-          {isElf ? (
+          {activeTheme.brand.layout === 'emblem' ? (
              <div className="flex items-center gap-2">
-                <Gift className="text-red-500" size={32} />
-                <h1 className="text-2xl md:text-3xl font-bold tracking-tight text-red-100 flex flex-col md:flex-row md:items-baseline md:gap-3">
-                   <span className="italic font-serif">The North Pole</span>
-                   <span className="text-sm md:text-lg opacity-80 uppercase tracking-widest font-sans">Protocol</span>
+                {BrandIcon && <BrandIcon className={palette.accent} size={32} />}
+                <h1 className={`text-2xl md:text-3xl font-bold tracking-tight ${palette.brand} flex flex-col md:flex-row md:items-baseline md:gap-3`}>
+                   <span className="italic font-serif">{activeTheme.brand.primary}</span>
+                   <span className="text-sm md:text-lg opacity-80 uppercase tracking-widest font-sans">{activeTheme.brand.secondary}</span>
                 </h1>
              </div>
           ) : (
-             <h1 className="text-3xl md:text-4xl font-bold tracking-tighter text-yellow-500 flex items-center gap-3">
-                <span className="bg-yellow-500 text-black px-2 py-0.5 rounded-sm shadow-[0_0_10px_rgba(234,179,8,0.5)]">24</span>
-                <span className="text-white text-lg md:text-xl tracking-[0.3em] uppercase opacity-80 border-l border-gray-700 pl-4">Christmas Protocol</span>
+             <h1 className={`text-3xl md:text-4xl font-bold tracking-tighter ${palette.brand} flex items-center gap-3`}>
+                <span className={`${palette.brandBadge} px-2 py-0.5 rounded-sm`}>{activeTheme.brand.primary}</span>
+                <span className="text-white text-lg md:text-xl tracking-[0.3em] uppercase opacity-80 border-s border-gray-700 ps-4">{activeTheme.brand.secondary}</span>
              </h1>
           )}
         </div>
         
         <div className="flex items-center gap-4">
-           {/* Theme Toggle */}
-           <button 
-             onClick={toggleTheme}
-             className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-bold uppercase tracking-wider transition-all ${
-                isElf 
-                  ? 'bg-emerald-800 border-emerald-700 text-emerald-100 hover:bg-emerald-700' 
-                  : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-yellow-500 hover:border-yellow-500'
-             }`}
-           >
-             {isElf ? <><Snowflake size={14} /> Elf Mode</> : <><ShieldCheck size={14} /> 24 Mode</>}
-           </button>
+           {/* Nothing is kept on a shared device, so there's no history to show */}
+           {!sharedDevice && (
+             <button
+               onClick={() => setHistoryOpen(true)}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-bold uppercase tracking-wider transition-all ${palette.toggle}`}
+               title={copy.history}
+             >
+               <History size={14} /> <span className="hidden md:inline">{copy.history}</span>
+             </button>
+           )}
+
+           {/* Sound Controls */}
+           <div className="flex items-center gap-2">
+             <button
+               onClick={toggleMute}
+               className={`flex items-center justify-center w-8 h-8 rounded-full border transition-all ${palette.toggle}`}
+               title={muted ? messages.controls.unmute : messages.controls.mute}
+               aria-label={muted ? messages.controls.unmute : messages.controls.mute}
+               aria-pressed={muted}
+             >
+               {muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+             </button>
+             <input
+               type="range"
+               min={0}
+               max={1}
+               step={0.05}
+               value={muted ? 0 : volume}
+               onChange={handleVolumeChange}
+               className="hidden md:block w-20 accent-current opacity-70"
+               title={messages.controls.volume}
+               aria-label={messages.controls.volume}
+             />
+           </div>
+
+           {/* Language */}
+           <label className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-bold uppercase tracking-wider transition-all ${palette.toggle}`}>
+             <Languages size={14} />
+             <span className="sr-only">{messages.language}</span>
+             <select
+               value={locale}
+               onChange={e => handleLocaleChange(e.target.value as LocaleId)}
+               className="bg-transparent cursor-pointer"
+             >
+               {LOCALE_ORDER.map(id => (
+                 <option key={id} value={id} className="text-black">{LOCALES[id].name}</option>
+               ))}
+             </select>
+           </label>
+
+           {/* Theme Toggle: hidden when the kiosk config locks the theme */}
+           {!kiosk?.theme && (
+             <button 
+               onClick={toggleTheme}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-bold uppercase tracking-wider transition-all ${palette.toggle}`}
+               aria-label={themeToggleLabel}
+               title={themeToggleLabel}
+             >
+               <ToggleIcon size={14} aria-hidden="true" /> {activeTheme.name}
+             </button>
+           )}
            
            <div className="hidden md:flex flex-col items-end text-[10px] opacity-70 leading-tight">
-              {isElf ? (
-                 <span className="font-serif italic text-red-200">Sleigh_Nav: ONLINE</span>
-              ) : (
-                 <span className="font-mono text-yellow-600">SECURE_CONNECTION: ESTABLISHED</span>
-              )}
+              <span className={palette.status}>{copy.status}</span>
            </div>
         </div>
       </header>
@@ -191,110 +805,248 @@ const App: React.FC = () => {
         {appState !== AppState.COMPLETE && (
           <div className="w-full max-w-5xl animate-in fade-in slide-in-from-bottom-4 duration-500">
              {/* Small Clock for Setup */}
-             <div className={`mb-12 border-b pb-8 flex flex-col items-center ${borderColorClass}`}>
-                <div className={`${isElf ? 'text-red-400 font-serif italic text-lg' : 'text-red-600 uppercase tracking-[0.5em] text-xs font-bold'} mb-4 animate-pulse`}>
-                  {isElf ? "Time until Santa arrives..." : "Time Remaining Until Target"}
+             <div className={`mb-12 border-b pb-8 flex flex-col items-center ${palette.border}`}>
+                <div className={`${palette.countdownHeading} mb-4 animate-pulse`}>
+                  {copy.countdownHeading}
                 </div>
-                <Clock targetDate={targetChristmas} onTick={handleTick} variant="small" theme={theme} />
+                <Clock targetDate={countdown.targetDate} variant="small" display={clockDisplay} announce theme={theme} locale={locale} />
+                {/* The party's target is fixed by whoever set up the kiosk */}
+                {!kiosk && (
+                  <TargetPicker target={countdownTarget} onChange={setCountdownTarget} display={clockDisplay} onDisplayChange={setClockDisplay} theme={theme} locale={locale} />
+                )}
              </div>
 
              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-stretch">
                 {/* Upload Section */}
-                <div className={`${containerClass} border p-1 relative group transition-colors duration-500`}>
+                <div
+                  className={`${palette.container} border p-1 relative group transition-colors duration-500`}
+                  onDragOver={handleDragOver}
+                  onDragLeave={() => setDragActive(false)}
+                  onDrop={handleDrop}
+                >
+                  {dragActive && (
+                    <div className={`absolute inset-0 z-20 border-2 border-dashed pointer-events-none ${palette.dropZoneActive}`}></div>
+                  )}
                   {/* Corners */}
-                  {!isElf && (
+                  {activeTheme.decoration === 'brackets' && (
                     <>
-                      <div className="absolute top-0 left-0 w-2 h-2 border-t border-l border-yellow-500"></div>
-                      <div className="absolute top-0 right-0 w-2 h-2 border-t border-r border-yellow-500"></div>
-                      <div className="absolute bottom-0 left-0 w-2 h-2 border-b border-l border-yellow-500"></div>
-                      <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-yellow-500"></div>
+                      <div className={`absolute top-0 left-0 w-2 h-2 border-t border-l ${palette.decoration}`}></div>
+                      <div className={`absolute top-0 right-0 w-2 h-2 border-t border-r ${palette.decoration}`}></div>
+                      <div className={`absolute bottom-0 left-0 w-2 h-2 border-b border-l ${palette.decoration}`}></div>
+                      <div className={`absolute bottom-0 right-0 w-2 h-2 border-b border-r ${palette.decoration}`}></div>
                     </>
                   )}
-                  {isElf && (
-                     <div className="absolute -top-2 -left-2 text-red-500"><Snowflake size={24} /></div>
+                  {activeTheme.decoration === 'ornament' && OrnamentIcon && (
+                     <div className={`absolute -top-2 -left-2 ${palette.decoration}`}><OrnamentIcon size={24} /></div>
                   )}
 
-                  <h2 className={`${isElf ? 'bg-emerald-800 text-emerald-100 font-serif' : 'bg-gray-800 text-gray-400 font-mono tracking-wider'} text-xs px-2 py-1 absolute -top-3 left-4 uppercase`}>
-                    {isElf ? "Nice List Candidate" : "Subject Intel Source"}
+                  <h2 className={`${palette.panelBadge} text-xs px-2 py-1 absolute -top-3 left-4 uppercase`}>
+                    {copy.panelBadge}
                   </h2>
 
-                  {!uploadedImage ? (
+                  {groupMode ? (
+                    <>
+                      <input type="file" ref={groupInputRef} onChange={handleImageUpload} className="hidden" accept="image/*,.heic,.heif" multiple />
+                      <SubjectRoster
+                        subjects={subjects}
+                        onAdd={() => withConsent(() => groupInputRef.current?.click())}
+                        onRemove={removeSubject}
+                        onMove={moveSubject}
+                        disabled={appState === AppState.PROCESSING}
+                        theme={theme}
+                        locale={locale}
+                      />
+                    </>
+                  ) : cameraOpen ? (
+                    <CameraCapture onCapture={handleCameraCapture} onCancel={() => setCameraOpen(false)} theme={theme} locale={locale} />
+                  ) : cropOpen && uploadSource ? (
+                    <CropEditor source={uploadSource} onApply={handleCropApply} onCancel={() => setCropOpen(false)} onError={handleCropError} theme={theme} locale={locale} />
+                  ) : !uploadedImage ? (
                     <div 
-                      className={`h-96 border-2 border-dashed ${isElf ? 'border-emerald-700' : 'border-gray-700'} flex flex-col items-center justify-center cursor-pointer ${dropZoneHoverClass} transition-all`}
-                      onClick={() => fileInputRef.current?.click()}
+                      className={`h-96 border-2 border-dashed ${palette.dropZone} flex flex-col items-center justify-center cursor-pointer ${palette.dropZoneHover} transition-all`}
+                      onClick={() => withConsent(() => fileInputRef.current?.click())}
                     >
-                      <input type="file" ref={fileInputRef} onChange={handleImageUpload} className="hidden" accept="image/*" />
-                      <Upload className={`w-16 h-16 mb-6 transition-colors ${isElf ? 'text-emerald-600 group-hover:text-red-500' : 'text-gray-600 group-hover:text-yellow-500'}`} />
-                      <p className={`${accentColorClass} ${isElf ? 'font-serif text-lg' : 'font-mono text-sm uppercase tracking-widest'} mb-2`}>
-                        {isElf ? "Upload Your Photo" : "Upload Subject Image"}
-                      </p>
-                      <p className={`opacity-60 text-xs ${isElf ? 'font-sans' : 'font-mono'}`}>Format: JPG, PNG // Max Size: 5MB</p>
+                      <input type="file" ref={fileInputRef} onChange={handleImageUpload} className="hidden" accept="image/*,.heic,.heif" />
+                      {/* Keyboard target for the zone; clicks anywhere in it bubble up to the picker */}
+                      <div
+                        role="button"
+                        tabIndex={0}
+                        aria-label={messages.a11y.uploadZone}
+                        aria-describedby="upload-formats"
+                        onKeyDown={e => {
+                          if (e.key !== 'Enter' && e.key !== ' ') return;
+                          e.preventDefault();
+                          withConsent(() => fileInputRef.current?.click());
+                        }}
+                        className="flex flex-col items-center p-2 rounded-sm"
+                      >
+                        <Upload className={`w-16 h-16 mb-6 transition-colors ${palette.uploadIcon}`} aria-hidden="true" />
+                        <p className={`${palette.accent} ${fonts.uploadTitle} mb-2`}>
+                          {copy.uploadTitle}
+                        </p>
+                        <p id="upload-formats" className={`opacity-60 text-xs ${fonts.caption}`}>{formatMessage(messages.upload.formats, { types: ACCEPTED_UPLOAD_LABEL, size: MAX_UPLOAD_BYTES / 1024 / 1024 })}</p>
+                      </div>
+                      <button
+                        onClick={e => {
+                          e.stopPropagation();
+                          withConsent(() => setCameraOpen(true));
+                        }}
+                        className={`mt-6 h-10 px-4 flex items-center gap-2 text-xs font-bold uppercase tracking-wider border rounded-sm ${palette.border} ${palette.accent} hover:opacity-80 transition-opacity`}
+                      >
+                        <Camera size={14} />
+                        <span>{activeTheme.camera.open}</span>
+                      </button>
                     </div>
                   ) : (
                     <div className="h-96 relative bg-black overflow-hidden">
-                      <img src={uploadedImage} alt="Preview" className={`w-full h-full object-cover opacity-80 ${isElf ? '' : 'grayscale'}`} />
-                      <button onClick={reset} className="absolute top-2 right-2 bg-red-600/80 hover:bg-red-500 text-white p-2 rounded-sm backdrop-blur-sm transition-colors">
+                      <img src={uploadedImage} alt={messages.images.preview} className={`w-full h-full object-contain opacity-80 ${palette.previewFilter}`} />
+                      {uploadSource && appState !== AppState.PROCESSING && (
+                        <button
+                          onClick={() => setCropOpen(true)}
+                          className="absolute top-2 left-2 flex items-center gap-1 bg-black/70 hover:bg-black text-white px-2 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-sm backdrop-blur-sm transition-colors"
+                        >
+                          <Crop size={14} />
+                          <span>{activeTheme.crop.adjust}</span>
+                        </button>
+                      )}
+                      <button onClick={reset} className="absolute top-2 right-2 bg-red-600/80 hover:bg-red-500 text-white p-2 rounded-sm backdrop-blur-sm transition-colors" title={messages.controls.remove} aria-label={messages.controls.remove}>
                         <X size={16} />
                       </button>
                     </div>
                   )}
+
+                  {uploadError && (
+                    <div className="absolute bottom-2 inset-x-2 z-10 bg-red-950/90 border border-red-500/50 p-3 flex items-center gap-3 text-red-300 text-xs">
+                      <AlertTriangle size={16} className="shrink-0" />
+                      <span className="flex-1">{activeTheme.errors.upload[uploadError.kind]}</span>
+                      <button onClick={() => setUploadError(null)} className="shrink-0 hover:text-white transition-colors" title={messages.controls.dismiss} aria-label={messages.controls.dismiss}>
+                        <X size={14} />
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 {/* Status / Action Section */}
                 <div className="flex flex-col justify-center gap-6">
-                   <div className={`${isElf ? 'bg-emerald-900/50' : 'bg-black'} border ${borderColorClass} p-6 relative`}>
-                      <h3 className={`${isElf ? 'text-emerald-300 font-serif' : 'text-gray-500 uppercase tracking-widest font-mono'} text-sm mb-4 border-b ${borderColorClass} pb-2`}>
-                        {isElf ? "Workshop Parameters" : "Protocol Parameters"}
+                   <div className={`${palette.panelBackground} border ${palette.border} p-6 relative`}>
+                      <h3 className={`${palette.panelHeading} text-sm mb-4 border-b ${palette.border} pb-2`}>
+                        {copy.parametersHeading}
                       </h3>
-                      <ul className={`space-y-3 text-xs md:text-sm ${isElf ? 'font-sans text-emerald-100' : 'font-mono text-gray-400'}`}>
-                        <li className="flex items-center gap-3">
-                          <span className={`w-1.5 h-1.5 rounded-full ${isElf ? 'bg-red-500' : 'bg-yellow-500'}`}></span>
-                          <span>{isElf ? "Transform into Buddy the Elf" : "Reconstruct Subject identity to CTU Agent profile"}</span>
-                        </li>
-                        <li className="flex items-center gap-3">
-                          <span className={`w-1.5 h-1.5 rounded-full ${isElf ? 'bg-red-500' : 'bg-yellow-500'}`}></span>
-                          <span>{isElf ? "Apply 'North Pole' magic filter" : "Apply Season 1 atmospheric filters (Blue/Noir)"}</span>
-                        </li>
-                        <li className="flex items-center gap-3">
-                          <span className={`w-1.5 h-1.5 rounded-full ${isElf ? 'bg-red-500' : 'bg-yellow-500'}`}></span>
-                          <span>{isElf ? "Sync Countdown to Santa's Arrival" : "Synchronize Christmas Countdown Timer"}</span>
-                        </li>
+                      <ul className={`space-y-3 text-xs md:text-sm ${palette.panelList}`}>
+                        {copy.parameters.map(parameter => (
+                          <li key={parameter} className="flex items-center gap-3">
+                            <span className={`w-1.5 h-1.5 rounded-full ${palette.bullet}`}></span>
+                            <span>{parameter}</span>
+                          </li>
+                        ))}
                       </ul>
+                      <div className={`mt-4 pt-4 border-t ${palette.border} flex items-center justify-between gap-3`}>
+                        <span className={`${palette.panelHeading} text-xs`}>{activeTheme.group.name}</span>
+                        <button
+                          onClick={() => setGroupMode(prev => !prev)}
+                          disabled={appState === AppState.PROCESSING}
+                          aria-pressed={groupMode}
+                          className={`h-8 px-3 flex items-center gap-2 text-xs font-bold uppercase border rounded-sm transition-colors ${
+                            groupMode ? `${palette.button} ${palette.buttonText} border-transparent` : `${palette.border} opacity-60 hover:opacity-100`
+                          }`}
+                        >
+                          <Users size={14} />
+                          <span>{groupMode ? messages.upload.on : messages.upload.off}</span>
+                        </button>
+                      </div>
+                      <BriefingForm
+                        values={briefingValues}
+                        onChange={setBriefing}
+                        disabled={appState === AppState.PROCESSING}
+                        theme={theme}
+                        locale={locale}
+                      />
+                      <div className={`mt-4 pt-4 border-t ${palette.border} flex items-center justify-between gap-3`}>
+                        <span className={`${palette.panelHeading} text-xs`}>{copy.variantCount}</span>
+                        <div className="flex gap-1">
+                          {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                            <button
+                              key={count}
+                              onClick={() => setVariantCount(count)}
+                              disabled={appState === AppState.PROCESSING}
+                              className={`w-8 h-8 text-xs font-bold border rounded-sm transition-colors ${
+                                count === variantCount ? `${palette.button} ${palette.buttonText} border-transparent` : `${palette.border} opacity-60 hover:opacity-100`
+                              }`}
+                            >
+                              {count}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
                    </div>
 
                    <button 
-                     disabled={!uploadedImage || appState === AppState.PROCESSING}
+                     disabled={!canGenerate || appState === AppState.PROCESSING}
                      onClick={handleGenerate}
                      className={`
                         h-16 w-full font-bold uppercase tracking-[0.2em] transition-all flex items-center justify-center gap-3 relative overflow-hidden group rounded-md
-                        ${!uploadedImage ? 'bg-gray-800 text-gray-500 cursor-not-allowed' : `${buttonBgClass} ${buttonTextClass} shadow-lg`}
+                        ${!canGenerate ? 'bg-gray-800 text-gray-500 cursor-not-allowed' : `${palette.button} ${palette.buttonText} shadow-lg`}
                      `}
                    >
                      {appState === AppState.PROCESSING ? (
                        <>
                          <span className="animate-spin"><RefreshCw size={20} /></span>
-                         <span>{isElf ? "Making Toys..." : "Processing Intel..."}</span>
+                         <span>{copy.processing}</span>
                          <div className="absolute bottom-0 left-0 h-1 bg-white animate-loading-bar w-full"></div>
                        </>
                      ) : (
                        <>
-                         {isElf ? <Gift size={20} /> : <ShieldCheck size={20} />}
-                         <span>{isElf ? "Spread Cheer" : "Initiate Protocol"}</span>
+                         <ActionIcon size={20} />
+                         <span>{copy.action}</span>
                        </>
                      )}
                    </button>
 
+                   {appState === AppState.PROCESSING && (
+                     <button
+                       onClick={handleAbort}
+                       className="h-10 w-full flex items-center justify-center gap-2 border border-red-500/50 text-red-400 hover:bg-red-900/20 text-xs font-bold uppercase tracking-[0.2em] transition-colors rounded-md"
+                     >
+                       <X size={16} />
+                       <span>{copy.abort}</span>
+                     </button>
+                   )}
+
+                   {appState === AppState.PROCESSING && variants.length > 1 && (
+                     <VariantGallery variants={variants} selectedId={selectedVariantId} onSelect={promoteVariant} theme={theme} locale={locale} />
+                   )}
+
                    {appState === AppState.ERROR && (
                       <div className="bg-red-900/20 border border-red-500/50 p-4 flex items-center gap-3 text-red-400">
                         <AlertTriangle size={24} className="shrink-0" />
-                        <div className="flex flex-col">
-                            <span className="uppercase text-xs tracking-wider font-bold mb-1">Transmission Failed</span>
-                            <span className="text-xs opacity-80">{errorMessage || "Unknown error occurred."}</span>
+                        <div className="flex flex-col flex-1">
+                            <span className="uppercase text-xs tracking-wider font-bold mb-1">{activeTheme.errors.title}</span>
+                            <span className="text-xs opacity-80">{activeTheme.errors.messages[generationError?.kind ?? GenerationErrorKind.UNKNOWN]}</span>
                         </div>
+                        {/* UNKNOWN isn't retried automatically, but the guest may still want another go */}
+                        {(generationError?.retryable || generationError?.kind === GenerationErrorKind.UNKNOWN) && (
+                          <button
+                            onClick={handleGenerate}
+                            className="shrink-0 flex items-center gap-2 border border-red-500/50 hover:bg-red-500/20 px-3 py-1.5 text-xs uppercase tracking-wider transition-colors"
+                          >
+                            <RefreshCw size={14} />
+                            <span>{activeTheme.errors.retry}</span>
+                          </button>
+                        )}
                       </div>
                    )}
                 </div>
              </div>
+
+             {/* Privacy notice for the active provider */}
+             <div className={`mt-6 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-[10px] opacity-60 ${fonts.caption}`}>
+               <span className="flex items-center gap-1"><ShieldCheck size={12} /> {messages.privacy.providers[imageProvider.id]}</span>
+               {consented && !sharedDevice && (
+                 <button onClick={withdrawConsent} className="underline hover:opacity-100 transition-opacity">
+                   {activeTheme.privacy.withdraw}
+                 </button>
+               )}
+             </div>
           </div>
         )}
 
@@ -303,64 +1055,156 @@ const App: React.FC = () => {
           <div className="w-full flex flex-col items-center animate-in fade-in zoom-in-95 duration-1000">
             
             {/* The Cinematic Container */}
-            <div className={`relative w-full max-w-5xl aspect-[9/16] md:aspect-[16/9] ${isElf ? 'bg-emerald-900 border-4 border-red-900' : 'bg-black border-4 border-gray-900'} shadow-2xl overflow-hidden group`}>
+            <div className={`relative w-full max-w-5xl aspect-[9/16] md:aspect-[16/9] ${palette.frame} shadow-2xl overflow-hidden group`}>
                
+               {panelCount > 1 ? (
+                 <SplitScreen
+                   generatedImage={generatedImage}
+                   sourceImage={uploadedImage ?? subjects[0]?.image ?? null}
+                   panelCount={panelCount}
+                   targetDate={countdown.targetDate}
+                   display={clockDisplay}
+                   theme={theme}
+                   locale={locale}
+                 />
+               ) : (
+               <>
                {/* Main Image */}
-               <img src={generatedImage} alt="Protocol Result" className="w-full h-full object-contain md:object-cover" />
+               <img src={generatedImage} alt={messages.images.result} className="w-full h-full object-contain md:object-cover animate-in fade-in duration-700" />
                
                {/* Vignette Overlay */}
                <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_50%,rgba(0,0,0,0.4)_100%)] pointer-events-none"></div>
 
                {/* UI Overlay: Top Left */}
                <div className="absolute top-8 left-8 flex flex-col gap-1 pointer-events-none">
-                  <div className={`${isElf ? 'bg-red-600 text-white' : 'bg-yellow-500 text-black'} text-xs font-bold px-2 py-0.5 inline-block w-max`}>
-                     {isElf ? "SANTA CAM" : "LIVE FEED"}
+                  <div className={`${palette.feedTag} text-xs font-bold px-2 py-0.5 inline-block w-max`}>
+                     {activeTheme.overlay.feedTag}
                   </div>
-                  <div className={`${isElf ? 'text-white/80' : 'text-yellow-500/80'} text-[10px] tracking-widest font-mono`}>
-                     {isElf ? "WORKSHOP // SECTOR 7" : "CAM_2A // SECTOR 4"}
+                  <div className={`${palette.feedLocation} text-[10px] tracking-widest font-mono`}>
+                     {activeTheme.overlay.feedLocation}
                   </div>
                </div>
 
                {/* UI Overlay: Bottom - THE COUNTDOWN */}
                <div className="absolute bottom-8 left-0 w-full flex flex-col items-center justify-center z-10 pointer-events-none">
-                  <div className={`${isElf ? 'bg-red-900/80 border-white/30' : 'bg-black/60 border-yellow-500/30'} backdrop-blur-sm px-6 py-2 border rounded-lg flex flex-col items-center shadow-lg`}>
-                    <p className={`${isElf ? 'text-white font-serif italic' : 'text-yellow-600 font-mono uppercase tracking-[0.5em] text-[8px] md:text-[10px]'} mb-1 animate-pulse`}>
-                       {isElf ? "Countdown to Christmas" : "Time Remaining"}
+                  <div className={`${palette.overlayPanel} backdrop-blur-sm px-6 py-2 border rounded-lg flex flex-col items-center shadow-lg`}>
+                    <p className={`${palette.overlayHeading} mb-1 animate-pulse`}>
+                       {copy.overlayHeading}
                     </p>
-                    <Clock targetDate={targetChristmas} onTick={handleTick} variant="large" theme={theme} />
+                    <Clock targetDate={countdown.targetDate} variant="large" display={clockDisplay} announce theme={theme} locale={locale} />
                   </div>
                </div>
+               </>
+               )}
 
-               {/* Interactive Controls (Hover to reveal) */}
-               <div className="absolute top-0 right-0 p-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col gap-2 z-50">
+               {/* Interactive Controls: revealed on hover or keyboard focus, and always shown on touch screens */}
+               <div className={`absolute top-0 right-0 p-4 ${exportOpen ? 'opacity-100' : 'opacity-0'} group-hover:opacity-100 group-focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity duration-300 flex flex-col gap-2 z-50`}>
                   <button 
                     onClick={handleShare}
-                    className={`${buttonBgClass} ${buttonTextClass} p-3 rounded-full shadow-lg transition-transform hover:scale-110`}
-                    title="Share"
+                    className={`${palette.button} ${palette.buttonText} p-3 rounded-full shadow-lg transition-transform hover:scale-110`}
+                    title={messages.controls.share}
+                    aria-label={messages.controls.share}
                   >
                     <Share2 size={20} />
                   </button>
-                  <a 
-                    href={generatedImage} 
-                    download={`protocol-${theme.toLowerCase()}.png`}
-                    className={`${buttonBgClass} ${buttonTextClass} p-3 rounded-full shadow-lg transition-transform hover:scale-110`}
-                    title="Download"
-                  >
-                    <Download size={20} />
-                  </a>
+                  <div className="relative">
+                    <button
+                      onClick={() => setExportOpen(prev => !prev)}
+                      className={`${palette.button} ${palette.buttonText} p-3 rounded-full shadow-lg transition-transform hover:scale-110`}
+                      title={messages.controls.download}
+                      aria-label={messages.controls.download}
+                      aria-expanded={exportOpen}
+                    >
+                      <Download size={20} />
+                    </button>
+                    {exportOpen && (
+                      <div className="absolute right-full top-0 mr-2">
+                        <ExportMenu
+                          theme={theme}
+                          locale={locale}
+                          size={exportSize}
+                          format={exportFormat}
+                          onSizeChange={setExportSize}
+                          onFormatChange={setExportFormat}
+                          onExport={handleExport}
+                          onExportClip={handleExportClip}
+                          busy={exporting}
+                          clipProgress={clipProgress}
+                        />
+                      </div>
+                    )}
+                  </div>
                   <button 
                     onClick={reset}
                     className="bg-white hover:bg-gray-200 text-black p-3 rounded-full shadow-lg transition-transform hover:scale-110"
-                    title="New Protocol"
+                    title={messages.controls.newProtocol}
+                    aria-label={messages.controls.newProtocol}
                   >
                     <RefreshCw size={20} />
                   </button>
                </div>
             </div>
 
+            {exportFailed && (
+              <div role="alert" className="mt-4 w-full max-w-5xl bg-red-950/90 border border-red-500/50 p-3 flex items-center gap-3 text-red-300 text-xs">
+                <AlertTriangle size={16} className="shrink-0" />
+                <span className="flex-1">{activeTheme.errors.export}</span>
+                <button onClick={() => setExportFailed(false)} className="shrink-0 hover:text-white transition-colors" title={messages.controls.dismiss} aria-label={messages.controls.dismiss}>
+                  <X size={14} />
+                </button>
+              </div>
+            )}
+
+            <div className="mt-6 flex items-center gap-3">
+              <span className={`${palette.panelHeading} text-xs`}>{copy.layout}</span>
+              <div className="flex gap-1">
+                {Array.from({ length: MAX_SPLIT_PANELS }, (_, i) => i + 1).map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setPanelCount(count)}
+                    aria-pressed={count === panelCount}
+                    className={`w-8 h-8 text-xs font-bold border rounded-sm transition-colors ${
+                      count === panelCount ? `${palette.button} ${palette.buttonText} border-transparent` : `${palette.border} opacity-60 hover:opacity-100`
+                    }`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {kiosk && (
+              <div className="mt-8">
+                <HandoffQr theme={theme} locale={locale} ticket={handoff} pending={handoffPending} failed={handoffFailed} onRequest={requestHandoff} />
+              </div>
+            )}
+
+            {edits && (
+              <div className="mt-8 w-full max-w-5xl">
+                <FieldAdjustments
+                  theme={theme}
+                  locale={locale}
+                  stack={edits}
+                  busy={editing}
+                  errorKind={editError?.kind ?? null}
+                  onSubmit={handleEdit}
+                  onCancel={cancelEdit}
+                  onUndo={() => moveInEdits(undoEdit)}
+                  onRedo={() => moveInEdits(redoEdit)}
+                  onSelect={index => moveInEdits(stack => selectVersion(stack, index))}
+                />
+              </div>
+            )}
+
+            {variants.length > 1 && (
+              <div className="mt-8 w-full max-w-5xl">
+                <VariantGallery variants={variants} selectedId={selectedVariantId} onSelect={promoteVariant} theme={theme} locale={locale} />
+              </div>
+            )}
+
             <div className="mt-8 text-center space-y-2 opacity-70">
-              <p className={`text-xs uppercase tracking-widest ${isElf ? 'font-serif text-red-200' : 'font-mono text-gray-500'}`}>
-                 {isElf ? "The best way to spread Christmas cheer is singing loud for all to hear." : "The following takes place between now and Christmas Day."}
+              <p className={`text-xs uppercase tracking-widest ${palette.tagline}`}>
+                 {copy.tagline}
               </p>
             </div>
 
@@ -369,8 +1213,47 @@ const App: React.FC = () => {
 
       </main>
       
-      {/* Sound Effect Visualizer Line at Bottom */}
-      <div className={`fixed bottom-0 left-0 w-full h-1 transition-colors duration-75 ${tickActive ? (isElf ? 'bg-red-500' : 'bg-yellow-500') : 'bg-transparent'}`}></div>
+      {countdown.phase === 'celebrating' && !celebrationDismissed && (
+        <CelebrationScreen
+          theme={theme}
+          locale={locale}
+          label={`${targetLabel(countdownTarget, messages.presets)} // ${countdownTarget.timeZone.replace(/_/g, ' ')}`}
+          onDismiss={() => setCelebrationDismissed(true)}
+        />
+      )}
+
+      {pendingUpload && (
+        <ConsentGate
+          theme={theme}
+          locale={locale}
+          provider={imageProvider.id}
+          idleWipeSeconds={sharedDevice ? idleMs / 1000 : null}
+          handoffMinutes={kiosk?.handoffMinutes ?? null}
+          onAccept={handleConsentAccept}
+          onDecline={() => setPendingUpload(null)}
+        />
+      )}
+
+      {kiosk && attractActive && (
+        <AttractLoop
+          theme={theme}
+          locale={locale}
+          targetDate={countdown.targetDate}
+          display={clockDisplay}
+          samples={kiosk.attract.samples}
+          slideSeconds={kiosk.attract.slideSeconds}
+          onStart={startKioskSession}
+        />
+      )}
+
+      <HistoryDrawer
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        onReopen={reopenFromHistory}
+        theme={theme}
+        locale={locale}
+        refreshKey={historyVersion}
+      />
 
       <style>{`
         @keyframes loading-bar {
@@ -378,6 +1261,10 @@ const App: React.FC = () => {
           50% { transform: scaleX(0.7); }
           100% { transform: scaleX(1); transform-origin: right; }
         }
+        @keyframes panel-in {
+          0% { opacity: 0; transform: translate(var(--panel-dx), var(--panel-dy)) scale(0.96); }
+          100% { opacity: 1; transform: none; }
+        }
       `}</style>
     </div>
   );
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { ClockDisplay, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import Clock from './Clock';
+
+interface AttractLoopProps {
+  theme: ThemeMode;
+  locale: LocaleId;
+  targetDate: Date | null;
+  display: ClockDisplay;
+  // Image URLs shown between countdown slides (kiosk config `attract.samples`)
+  samples: string[];
+  slideSeconds: number;
+  onStart: () => void;
+}
+
+// Kiosk mode: full-screen loop shown while nobody is using the booth. It
+// alternates the countdown with sample posters; any touch starts a session.
+const AttractLoop: React.FC<AttractLoopProps> = ({ theme, locale, targetDate, display, samples, slideSeconds, onStart }) => {
+  const { palette, brand, copy, ambience } = getTheme(theme, locale);
+  const { kiosk } = getLocale(locale).messages;
+  // 0 is the countdown; 1..n are the samples
+  const [slide, setSlide] = useState(0);
+
+  useEffect(() => {
+    if (samples.length === 0) return;
+    const timer = setInterval(() => setSlide(prev => (prev + 1) % (samples.length + 1)), slideSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [samples.length, slideSeconds]);
+
+  const sample = slide > 0 ? samples[slide - 1] : null;
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      aria-label={kiosk.start}
+      onClick={onStart}
+      onKeyDown={e => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onStart();
+        }
+      }}
+      className={`fixed inset-0 z-[80] flex flex-col items-center justify-center gap-8 p-8 text-center cursor-pointer select-none ${palette.background}`}
+    >
+      {ambience.scanlines && <div className="absolute inset-0 scanline pointer-events-none"></div>}
+      <div className={`absolute inset-0 pointer-events-none ${ambience.className}`} style={ambience.style}></div>
+
+      <h1 className={`relative text-4xl md:text-6xl font-bold tracking-tight uppercase ${palette.brand}`}>
+        {brand.primary} <span className="opacity-70">{brand.secondary}</span>
+      </h1>
+
+      {sample ? (
+        <img key={sample} src={sample} alt="" className="relative max-h-[60vh] max-w-full object-contain shadow-2xl animate-in fade-in duration-1000" />
+      ) : (
+        <div className="relative flex flex-col items-center gap-4 animate-in fade-in duration-1000">
+          <p className={palette.countdownHeading}>{copy.countdownHeading}</p>
+          <Clock targetDate={targetDate} variant="large" display={display} theme={theme} locale={locale} />
+        </div>
+      )}
+
+      <p className={`relative text-xl md:text-2xl uppercase tracking-[0.3em] animate-pulse ${palette.accent}`}>{kiosk.start}</p>
+    </div>
+  );
+};
+
+export default AttractLoop;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { BriefingField, BriefingValues, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { isValidBriefingValue } from '../services/promptBuilder';
+
+interface BriefingFormProps {
+  values: BriefingValues;
+  onChange: (values: BriefingValues) => void;
+  disabled?: boolean;
+  theme: ThemeMode;
+  locale: LocaleId;
+}
+
+interface ClockInputProps {
+  id: string;
+  field: BriefingField;
+  value: string;
+  onCommit: (value: string) => void;
+  disabled?: boolean;
+  className: string;
+}
+
+// Free-typed clock reading; only valid times reach the briefing
+const ClockInput: React.FC<ClockInputProps> = ({ id, field, value, onCommit, disabled, className }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const valid = isValidBriefingValue(field, draft);
+
+  return (
+    <input
+      id={id}
+      type="text"
+      inputMode="numeric"
+      value={draft}
+      maxLength={8}
+      placeholder="HH:MM:SS"
+      disabled={disabled}
+      onChange={e => {
+        setDraft(e.target.value);
+        if (isValidBriefingValue(field, e.target.value)) onCommit(e.target.value);
+      }}
+      onBlur={() => setDraft(value)}
+      aria-invalid={!valid}
+      className={`${className} font-mono w-24 ${valid ? '' : 'border-red-500 text-red-400'}`}
+    />
+  );
+};
+
+// Structured prompt options for the active theme (see services/promptBuilder.ts)
+const BriefingForm: React.FC<BriefingFormProps> = ({ values, onChange, disabled, theme, locale }) => {
+  const { palette, briefing } = getTheme(theme, locale);
+  const fieldClass = `bg-transparent border ${palette.border} rounded-sm px-2 py-1 text-xs ${palette.panelList}`;
+  const set = (id: string, value: string) => onChange({ ...values, [id]: value });
+
+  return (
+    <div className={`mt-4 pt-4 border-t ${palette.border}`}>
+      <h4 className={`${palette.panelHeading} text-xs mb-3`}>{briefing.heading}</h4>
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2">
+        {briefing.fields.map(field => (
+          <React.Fragment key={field.id}>
+            <label htmlFor={`briefing-${field.id}`} className={`text-xs ${palette.panelList} opacity-80`}>{field.label}</label>
+            {field.kind === 'clock' ? (
+              <ClockInput id={`briefing-${field.id}`} field={field} value={values[field.id]} onCommit={value => set(field.id, value)} disabled={disabled} className={fieldClass} />
+            ) : (
+              <select
+                id={`briefing-${field.id}`}
+                value={values[field.id]}
+                onChange={e => set(field.id, e.target.value)}
+                disabled={disabled}
+                className={fieldClass}
+              >
+                {field.options.map(option => (
+                  <option key={option.value} value={option.value} className="bg-black">{option.label}</option>
+                ))}
+              </select>
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BriefingForm;
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Check, RefreshCw, Snowflake, SwitchCamera, X } from 'lucide-react';
+import { LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+
+interface CameraCaptureProps {
+  onCapture: (dataUrl: string) => void;
+  onCancel: () => void;
+  theme: ThemeMode;
+  locale: LocaleId;
+}
+
+type Facing = 'user' | 'environment';
+
+const COUNTDOWN_FROM = 3;
+
+// Crosshair and corner marks for the surveillance look
+const Reticle: React.FC<{ className: string }> = ({ className }) => (
+  <svg viewBox="0 0 100 100" preserveAspectRatio="none" className={`absolute inset-0 w-full h-full pointer-events-none ${className}`}>
+    <g fill="none" stroke="currentColor" strokeWidth="0.6" vectorEffect="non-scaling-stroke">
+      <path d="M 6,16 L 6,6 L 16,6 M 84,6 L 94,6 L 94,16 M 94,84 L 94,94 L 84,94 M 16,94 L 6,94 L 6,84" />
+      <circle cx="50" cy="45" r="14" />
+      <path d="M 50,25 L 50,36 M 50,54 L 50,65 M 30,45 L 41,45 M 59,45 L 70,45" />
+    </g>
+  </svg>
+);
+
+// Frosted edge with a few drifting flakes
+const SnowFrame: React.FC = () => (
+  <div className="absolute inset-0 pointer-events-none shadow-[inset_0_0_40px_12px_rgba(255,255,255,0.6)]">
+    {[8, 30, 55, 78, 92].map((left, i) => (
+      <Snowflake
+        key={left}
+        size={12 + (i % 3) * 6}
+        className="absolute text-white/80 animate-pulse"
+        style={{ left: `${left}%`, top: `${(i * 37) % 90}%`, animationDelay: `${i * 300}ms` }}
+      />
+    ))}
+  </div>
+);
+
+// Live viewfinder with a 3-2-1 shot, retake and front/back switching
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, theme, locale }) => {
+  const { palette, camera, fonts } = getTheme(theme, locale);
+  const { controls, images } = getLocale(locale).messages;
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facing, setFacing] = useState<Facing>('user');
+  const [canSwitch, setCanSwitch] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [snapshot, setSnapshot] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Hold the stream only while the viewfinder is live
+  useEffect(() => {
+    if (snapshot) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setFailed(true);
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: facing, width: { ideal: 1280 } }, audio: false })
+      .then(async media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        setFailed(false);
+        if (videoRef.current) videoRef.current.srcObject = media;
+        // Device labels/ids are only complete once permission is granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setCanSwitch(devices.filter(device => device.kind === 'videoinput').length > 1);
+      })
+      .catch(error => {
+        console.warn("Camera unavailable:", error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facing, snapshot]);
+
+  const takeShot = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    // Keep the selfie mirrored, as it was seen in the preview
+    if (facing === 'user') {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, 0, 0);
+    setSnapshot(canvas.toDataURL('image/jpeg', 0.92));
+  };
+
+  // 3-2-1 then shoot
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      takeShot();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown]);
+
+  const buttonClass = `h-10 px-4 flex items-center gap-2 text-xs font-bold uppercase tracking-wider rounded-sm transition-colors`;
+
+  return (
+    <div className="h-96 relative bg-black overflow-hidden">
+      {snapshot ? (
+        <img src={snapshot} alt={images.captured} className="w-full h-full object-cover" />
+      ) : (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`w-full h-full object-cover ${facing === 'user' ? '-scale-x-100' : ''} ${camera.viewfinder === 'reticle' ? 'grayscale-[0.3] contrast-125' : ''}`}
+        />
+      )}
+
+      {camera.viewfinder === 'reticle' ? <Reticle className={palette.accent} /> : <SnowFrame />}
+
+      {failed && !snapshot && (
+        <div className={`absolute inset-0 flex items-center justify-center p-8 text-center text-xs ${fonts.caption} ${palette.panelList}`}>
+          {camera.unavailable}
+        </div>
+      )}
+
+      {countdown !== null && (
+        <div key={countdown} className={`absolute inset-0 flex items-center justify-center text-8xl font-bold ${palette.accent} animate-ping pointer-events-none`}>
+          {countdown}
+        </div>
+      )}
+
+      <button onClick={onCancel} className="absolute top-2 right-2 bg-red-600/80 hover:bg-red-500 text-white p-2 rounded-sm backdrop-blur-sm transition-colors" title={controls.closeCamera}>
+        <X size={16} />
+      </button>
+      {canSwitch && !snapshot && (
+        <button
+          onClick={() => setFacing(prev => (prev === 'user' ? 'environment' : 'user'))}
+          disabled={countdown !== null}
+          className="absolute top-2 left-2 bg-black/60 hover:bg-black text-white p-2 rounded-sm backdrop-blur-sm transition-colors"
+          title={controls.switchCamera}
+        >
+          <SwitchCamera size={16} />
+        </button>
+      )}
+
+      <div className="absolute bottom-3 inset-x-0 flex justify-center gap-2">
+        {snapshot ? (
+          <>
+            <button onClick={() => setSnapshot(null)} className={`${buttonClass} bg-black/70 hover:bg-black text-white`}>
+              <RefreshCw size={14} />
+              <span>{camera.retake}</span>
+            </button>
+            <button onClick={() => onCapture(snapshot)} className={`${buttonClass} ${palette.button} ${palette.buttonText}`}>
+              <Check size={14} />
+              <span>{camera.confirm}</span>
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setCountdown(COUNTDOWN_FROM)}
+            disabled={failed || countdown !== null}
+            className={`${buttonClass} ${palette.button} ${palette.buttonText} disabled:opacity-40`}
+          >
+            <Camera size={14} />
+            <span>{camera.capture}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
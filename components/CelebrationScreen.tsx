@@ -0,0 +1,36 @@
+import React from 'react';
+import { LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+
+interface CelebrationScreenProps {
+  theme: ThemeMode;
+  locale: LocaleId;
+  label: string;
+  onDismiss: () => void;
+}
+
+// Full-screen "Protocol Complete" moment shown once the countdown hits zero
+const CelebrationScreen: React.FC<CelebrationScreenProps> = ({ theme, locale, label, onDismiss }) => {
+  const { palette, celebration, icons, ambience } = getTheme(theme, locale);
+  const ActionIcon = icons.action;
+
+  return (
+    <div className={`fixed inset-0 z-[70] flex flex-col items-center justify-center gap-6 p-8 text-center ${palette.background} animate-in fade-in duration-1000`}>
+      {ambience.scanlines && <div className="absolute inset-0 scanline pointer-events-none"></div>}
+      <div className={`absolute inset-0 pointer-events-none ${ambience.className}`} style={ambience.style}></div>
+
+      <ActionIcon size={64} className={`${palette.accent} animate-pulse`} />
+      <h2 className={`text-4xl md:text-6xl font-bold uppercase tracking-widest ${palette.accent}`}>{celebration.title}</h2>
+      <p className={`text-sm md:text-base uppercase tracking-[0.3em] ${palette.tagline}`}>{label}</p>
+      <p className={`max-w-xl text-sm md:text-lg opacity-80 ${palette.panelList}`}>{celebration.subtitle}</p>
+      <button
+        onClick={onDismiss}
+        className={`relative ${palette.button} ${palette.buttonText} px-8 h-12 font-bold uppercase tracking-[0.2em] rounded-md shadow-lg`}
+      >
+        {celebration.dismiss}
+      </button>
+    </div>
+  );
+};
+
+export default CelebrationScreen;
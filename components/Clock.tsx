@@ -1,57 +1,46 @@
 import React, { useEffect, useState } from 'react';
-import { CountdownTime, ThemeMode } from '../types';
+import { ClockDisplay, ClockUnit, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { Ticker, ticker as sharedTicker } from '../services/ticker';
+import { prefersReducedMotion } from '../services/reducedMotion';
+import { formatMessage } from '../services/i18n';
+import { ClockGroup, DEFAULT_CLOCK_DISPLAY, SEGMENT_PATHS, SegmentGlyph, clockGroups, clockMilliseconds, clockSummary, glyphSegments, separatorDots } from './sevenSegment';
 
 interface ClockProps {
-  targetDate: Date;
-  onTick?: () => void;
+  // null while the target isn't known yet; shows "--:--"
+  targetDate: Date | null;
   variant?: 'large' | 'small';
+  display?: ClockDisplay;
+  // Read the (throttled) summary out as it changes. Give it to one clock per view.
+  announce?: boolean;
   theme: ThemeMode;
+  locale: LocaleId;
+  // Defaults to the app-wide ticker; inject one to control time in tests
+  ticker?: Ticker;
 }
 
-// 7-segment paths for a 100x160 viewBox
-const SEGMENT_PATHS = {
-  a: "M 22,10 L 78,10 L 68,26 L 32,26 Z",         // Top
-  b: "M 80,12 L 80,76 L 64,66 L 64,28 Z",         // Top Right
-  c: "M 80,84 L 80,148 L 64,132 L 64,94 Z",       // Bottom Right
-  d: "M 22,150 L 78,150 L 68,134 L 32,134 Z",     // Bottom
-  e: "M 20,84 L 20,148 L 36,132 L 36,94 Z",       // Bottom Left
-  f: "M 20,12 L 20,76 L 36,66 L 36,28 Z",         // Top Left
-  g: "M 22,80 L 32,70 L 68,70 L 78,80 L 68,90 L 32,90 Z" // Middle
-};
+// Past this many digits the large clock steps down a size to stay on screen
+const COMPACT_DIGIT_COUNT = 8;
 
-const DIGIT_SEGMENTS: Record<number, string[]> = {
-  0: ['a', 'b', 'c', 'd', 'e', 'f'],
-  1: ['b', 'c'],
-  2: ['a', 'b', 'd', 'e', 'g'],
-  3: ['a', 'b', 'c', 'd', 'g'],
-  4: ['b', 'c', 'f', 'g'],
-  5: ['a', 'c', 'd', 'f', 'g'],
-  6: ['a', 'c', 'd', 'e', 'f', 'g'],
-  7: ['a', 'b', 'c'],
-  8: ['a', 'b', 'c', 'd', 'e', 'f', 'g'],
-  9: ['a', 'b', 'c', 'd', 'f', 'g'],
-};
+// Tenths only need 100ms resolution; rounding lets React skip identical frames
+const toTenth = (ms: number) => Math.floor(ms / 100) * 100;
 
-const SevenSegmentDigit: React.FC<{ value: number; pulse?: boolean; className?: string; theme: ThemeMode }> = ({ value, pulse, className, theme }) => {
-  const activeSegments = DIGIT_SEGMENTS[value] || [];
+const SevenSegmentDigit: React.FC<{ glyph: SegmentGlyph; pulse?: boolean; className?: string; theme: ThemeMode }> = ({ glyph, pulse, className, theme }) => {
+  const activeSegments = glyphSegments(glyph);
 
-  // Define colors based on theme
-  const activeColor = theme === '24' ? 'fill-yellow-500' : 'fill-red-600';
-  const pulseColor = theme === '24' ? 'fill-yellow-300' : 'fill-red-400';
-  const inactiveColor = theme === '24' ? 'fill-yellow-900/10' : 'fill-red-900/10';
-  
-  const glowStyle = theme === '24' 
-    ? (pulse ? 'drop-shadow(0 0 8px rgba(234,179,8,0.9))' : 'drop-shadow(0 0 2px rgba(234,179,8,0.5))')
-    : (pulse ? 'drop-shadow(0 0 8px rgba(220, 38, 38, 0.5))' : 'drop-shadow(0 0 1px rgba(220, 38, 38, 0.2))');
+  // Colours come from the active theme definition
+  const { active, pulse: pulseColor, inactive, glow, pulseGlow } = getTheme(theme).clock;
+  const glowStyle = pulse ? pulseGlow : glow;
 
   return (
     <svg viewBox="0 0 100 160" className={className} style={{ filter: glowStyle }}>
       {/* Background (inactive) segments */}
-      <g className={inactiveColor}>
+      <g className={inactive}>
         {Object.values(SEGMENT_PATHS).map((d, i) => <path key={i} d={d} />)}
       </g>
       {/* Active Segments */}
-      <g className={`transition-opacity duration-75 ${pulse ? pulseColor : activeColor}`}>
+      <g className={`transition-opacity duration-75 ${pulse ? pulseColor : active}`}>
         {activeSegments.map(segKey => (
           <path key={segKey} d={SEGMENT_PATHS[segKey as keyof typeof SEGMENT_PATHS]} />
         ))}
@@ -60,88 +49,106 @@ const SevenSegmentDigit: React.FC<{ value: number; pulse?: boolean; className?:
   );
 };
 
-const Separator: React.FC<{ pulse?: boolean; className?: string; theme: ThemeMode }> = ({ pulse, className, theme }) => {
-  const color = theme === '24' 
-    ? (pulse ? 'fill-yellow-300' : 'fill-yellow-500') 
-    : (pulse ? 'fill-red-400' : 'fill-red-600');
+// Colon between groups, or a decimal point ahead of the tenths
+const Separator: React.FC<{ before: ClockUnit; pulse?: boolean; className?: string; theme: ThemeMode }> = ({ before, pulse, className, theme }) => {
+  const palette = getTheme(theme).clock;
+  const color = pulse ? palette.pulse : palette.active;
 
   return (
-    <svg viewBox="0 0 40 160" className={className}>
-      <rect x="12" y="50" width="16" height="16" className={`${color} transition-opacity duration-75`} />
-      <rect x="12" y="100" width="16" height="16" className={`${color} transition-opacity duration-75`} />
+    <svg viewBox="0 0 40 160" className={className} aria-hidden="true">
+      {separatorDots(before).map(({ x, y, size }) => (
+        <rect key={y} x={x} y={y} width={size} height={size} className={`${color} transition-opacity duration-75`} />
+      ))}
     </svg>
   );
 };
 
-const Clock: React.FC<ClockProps> = ({ targetDate, onTick, variant = 'large', theme }) => {
-  const [timeLeft, setTimeLeft] = useState<CountdownTime>({ days: 0, hours: 0, minutes: 0, seconds: 0 });
+const Clock: React.FC<ClockProps> = ({ targetDate, variant = 'large', display = DEFAULT_CLOCK_DISPLAY, announce = false, theme, locale, ticker = sharedTicker }) => {
+  const target = targetDate ? targetDate.getTime() : null;
+  const [now, setNow] = useState(() => toTenth(ticker.now()));
   const [pulse, setPulse] = useState(false);
 
   useEffect(() => {
-    const calculateTimeLeft = () => {
-      const difference = +targetDate - +new Date();
-      if (difference <= 0) return { days: 0, hours: 0, minutes: 0, seconds: 0 };
-      
-      return {
-        days: Math.floor(difference / (1000 * 60 * 60 * 24)),
-        hours: Math.floor((difference / (1000 * 60 * 60)) % 24),
-        minutes: Math.floor((difference / 1000 / 60) % 60),
-        seconds: Math.floor((difference / 1000) % 60),
-      };
-    };
-
     // Initial calculation
-    setTimeLeft(calculateTimeLeft());
+    setNow(toTenth(ticker.now()));
 
-    // Timer loop
-    const timer = setInterval(() => {
-      setTimeLeft(calculateTimeLeft());
+    let pulseTimer: number | undefined;
+    const unsubscribe = ticker.subscribe(tick => {
+      setNow(toTenth(tick));
+      if (prefersReducedMotion()) return;
       setPulse(true);
-      if (onTick) onTick();
       // Sharp, quick pulse off
-      setTimeout(() => setPulse(false), 100);
-    }, 1000);
+      window.clearTimeout(pulseTimer);
+      pulseTimer = window.setTimeout(() => setPulse(false), 100);
+    });
 
-    return () => clearInterval(timer);
-  }, [targetDate, onTick]);
+    return () => {
+      unsubscribe();
+      window.clearTimeout(pulseTimer);
+    };
+  }, [target, ticker]);
 
-  // Size configurations
-  const digitClass = variant === 'large' 
-    ? "w-8 h-14 md:w-12 md:h-20 lg:w-14 lg:h-24" 
-    : "w-5 h-8 md:w-6 md:h-10";
-    
-  const separatorClass = variant === 'large'
-    ? "w-6 h-14 md:w-8 md:h-20 lg:w-10 lg:h-24"
-    : "w-3 h-8 md:w-4 md:h-10";
+  // The shared ticker only fires once a second, so the tenths digit runs off
+  // animation frames (which also pause in background tabs)
+  useEffect(() => {
+    if (!display.tenths) return;
+    let frame = 0;
+    const step = () => {
+      setNow(toTenth(ticker.now()));
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [display.tenths, ticker]);
+
+  const ms = target === null ? null : clockMilliseconds(new Date(target), new Date(now), display.countUp);
+  const groups = clockGroups(ms, display);
+  const compact = variant === 'large' && groups.reduce((count, group) => count + group.glyphs.length, 0) > COMPACT_DIGIT_COUNT;
 
+  // Size configurations
+  const digitClass = variant === 'small'
+    ? "w-5 h-8 md:w-6 md:h-10"
+    : compact
+      ? "w-6 h-10 md:w-9 md:h-16 lg:w-11 lg:h-20"
+      : "w-8 h-14 md:w-12 md:h-20 lg:w-14 lg:h-24";
+
+  const separatorClass = variant === 'small'
+    ? "w-3 h-8 md:w-4 md:h-10"
+    : compact
+      ? "w-4 h-10 md:w-6 md:h-16 lg:w-8 lg:h-20"
+      : "w-6 h-14 md:w-8 md:h-20 lg:w-10 lg:h-24";
+
+  const { labelLarge, labelSmall } = getTheme(theme).clock;
+  const { clock: labels, a11y } = getLocale(locale).messages;
+  const summary = ms === null || !Number.isFinite(ms)
+    ? a11y.loading
+    : formatMessage(display.countUp && target !== null && target <= now ? a11y.elapsed : a11y.remaining, { time: clockSummary(ms, display.format, locale) });
   const labelClass = variant === 'large'
-    ? `text-[10px] md:text-xs tracking-[0.2em] mt-1 uppercase ${theme === '24' ? 'text-yellow-700' : 'text-red-800 font-serif font-bold'}`
-    : `text-[8px] tracking-widest mt-0.5 uppercase ${theme === '24' ? 'text-yellow-700/80' : 'text-red-800/80'}`;
-
-  const renderGroup = (value: number, label: string) => {
-    const s = value.toString().padStart(2, '0');
-    const d1 = parseInt(s[0]);
-    const d2 = parseInt(s[1]);
-    return (
-      <div className="flex flex-col items-center mx-0.5 md:mx-1">
-        <div className="flex">
-          <SevenSegmentDigit value={d1} pulse={pulse} className={digitClass} theme={theme} />
-          <SevenSegmentDigit value={d2} pulse={pulse} className={digitClass} theme={theme} />
-        </div>
-        <span className={labelClass}>{label}</span>
+    ? `text-[10px] md:text-xs tracking-[0.2em] mt-1 uppercase ${labelLarge}`
+    : `text-[8px] tracking-widest mt-0.5 uppercase ${labelSmall}`;
+
+  const renderGroup = ({ unit, glyphs }: ClockGroup) => (
+    <div aria-hidden="true" className="flex flex-col items-center mx-0.5 md:mx-1">
+      <div className="flex">
+        {glyphs.map((glyph, i) => (
+          <SevenSegmentDigit key={i} glyph={glyph} pulse={pulse} className={digitClass} theme={theme} />
+        ))}
       </div>
-    );
-  };
+      <span className={labelClass}>{labels[unit]}</span>
+    </div>
+  );
 
   return (
-    <div className="flex flex-row items-start justify-center select-none">
-      {renderGroup(timeLeft.days, 'Days')}
-      <Separator pulse={pulse} className={separatorClass} theme={theme} />
-      {renderGroup(timeLeft.hours, 'Hours')}
-      <Separator pulse={pulse} className={separatorClass} theme={theme} />
-      {renderGroup(timeLeft.minutes, 'Min')}
-      <Separator pulse={pulse} className={separatorClass} theme={theme} />
-      {renderGroup(timeLeft.seconds, 'Sec')}
+    // Digits always read left to right, even in right-to-left locales
+    <div dir="ltr" role="timer" className="flex flex-row items-start justify-center select-none">
+      {/* Text alternative for the digits, which screen readers skip */}
+      <span className="sr-only" aria-live={announce ? 'polite' : 'off'} aria-atomic="true">{summary}</span>
+      {groups.map((group, index) => (
+        <React.Fragment key={group.unit}>
+          {index > 0 && <Separator before={group.unit} pulse={pulse} className={separatorClass} theme={theme} />}
+          {renderGroup(group)}
+        </React.Fragment>
+      ))}
     </div>
   );
 };
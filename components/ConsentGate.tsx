@@ -0,0 +1,74 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { ImageProviderId, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { formatMessage } from '../services/i18n';
+
+interface ConsentGateProps {
+  theme: ThemeMode;
+  locale: LocaleId;
+  // Decides which notice says where photos go
+  provider: ImageProviderId;
+  // Set in event mode: how long the session may sit idle before it is wiped
+  idleWipeSeconds: number | null;
+  // Set on a kiosk: how long a poster sent to a phone stays on the server
+  handoffMinutes: number | null;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+// "2 minutes" / "90 seconds", pluralised for the locale
+const formatDuration = (seconds: number, locale: LocaleId) => {
+  const unit = seconds % 60 === 0 ? 'minute' : 'second';
+  const value = unit === 'minute' ? seconds / 60 : seconds;
+  return new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'long' }).format(value);
+};
+
+// Asked once before the first photo is taken or uploaded. The explanation is
+// deliberately plain rather than themed.
+const ConsentGate: React.FC<ConsentGateProps> = ({ theme, locale, provider, idleWipeSeconds, handoffMinutes, onAccept, onDecline }) => {
+  const { palette, privacy } = getTheme(theme, locale);
+  const notice = getLocale(locale).messages.privacy;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
+      <div role="dialog" aria-modal="true" aria-labelledby="consent-title" className={`w-full max-w-lg ${palette.panelBackground} border ${palette.border} p-6 shadow-2xl`}>
+        <h2 id="consent-title" className={`flex items-center gap-3 ${palette.panelHeading} text-sm mb-4 border-b ${palette.border} pb-2`}>
+          <ShieldCheck size={18} className={palette.accent} />
+          <span>{privacy.title}</span>
+        </h2>
+        <div className={`space-y-3 text-xs md:text-sm ${palette.panelList}`}>
+          <p>{notice.intro}</p>
+          <p>{notice.providers[provider]}</p>
+          <p>{notice.stripped}</p>
+          <p>
+            {idleWipeSeconds === null
+              ? notice.history
+              : formatMessage(notice.sharedDevice, { duration: formatDuration(idleWipeSeconds, locale) })}
+          </p>
+          {handoffMinutes !== null && (
+            <p>{formatMessage(notice.handoff, { duration: formatDuration(handoffMinutes * 60, locale) })}</p>
+          )}
+        </div>
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onDecline}
+            className={`h-10 px-4 text-xs font-bold uppercase tracking-wider border rounded-sm ${palette.border} opacity-70 hover:opacity-100 transition-opacity`}
+          >
+            {privacy.decline}
+          </button>
+          <button
+            onClick={onAccept}
+            autoFocus
+            className={`h-10 px-4 text-xs font-bold uppercase tracking-wider rounded-sm ${palette.button} ${palette.buttonText}`}
+          >
+            {privacy.accept}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentGate;
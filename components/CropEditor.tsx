@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, RotateCcw, RotateCw, X } from 'lucide-react';
+import { LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { loadImage } from '../services/imageUtils';
+import { UploadError, toUploadError } from '../services/uploadPipeline';
+import { CropFraming, DEFAULT_FRAMING, MAX_CROP_ZOOM, clampFraming, framingScale, renderCrop } from '../services/cropFraming';
+
+interface CropEditorProps {
+  // Upright, uncropped photo
+  source: string;
+  onApply: (dataUrl: string) => void;
+  onCancel: () => void;
+  // The photo couldn't be decoded or re-rendered; the editor can't continue
+  onError: (error: UploadError) => void;
+  theme: ThemeMode;
+  locale: LocaleId;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const WHEEL_ZOOM_STEP = 0.0015;
+
+// Drag to pan, pinch / wheel / slider to zoom, inside a fixed 3:4 window.
+// Pointer events cover mouse, pen and touch alike.
+const CropEditor: React.FC<CropEditorProps> = ({ source, onApply, onCancel, onError, theme, locale }) => {
+  const activeTheme = getTheme(theme, locale);
+  const { controls, images } = getLocale(locale).messages;
+  const { palette, crop, icons } = activeTheme;
+  const OrnamentIcon = icons.ornament;
+
+  const windowRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const pinchDistance = useRef<number | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [windowWidth, setWindowWidth] = useState(0);
+  const [framing, setFraming] = useState<CropFraming>(DEFAULT_FRAMING);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(source)
+      .then(img => !cancelled && setImage(img))
+      .catch(error => {
+        console.warn("Crop source failed to load:", error);
+        if (!cancelled) onError(toUploadError(error));
+      });
+    setFraming(DEFAULT_FRAMING);
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  // Offsets are stored in window widths, so track the rendered size
+  useEffect(() => {
+    const element = windowRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWindowWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const update = (change: (prev: CropFraming) => CropFraming) => {
+    if (!image) return;
+    setFraming(prev => clampFraming(image.naturalWidth, image.naturalHeight, change(prev)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const last = pointers.current.get(e.pointerId);
+    if (!last || !windowWidth) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size >= 2) {
+      const [a, b] = [...pointers.current.values()];
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (pinchDistance.current) {
+        const ratio = distance / pinchDistance.current;
+        update(prev => ({ ...prev, zoom: prev.zoom * ratio }));
+      }
+      pinchDistance.current = distance;
+      return;
+    }
+
+    const dx = (e.clientX - last.x) / windowWidth;
+    const dy = (e.clientY - last.y) / windowWidth;
+    update(prev => ({ ...prev, offsetX: prev.offsetX + dx, offsetY: prev.offsetY + dy }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinchDistance.current = null;
+  };
+
+  // Non-passive so zooming doesn't also scroll the page
+  useEffect(() => {
+    const element = windowRef.current;
+    if (!element || !image) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setFraming(prev => clampFraming(image.naturalWidth, image.naturalHeight, { ...prev, zoom: prev.zoom * (1 - e.deltaY * WHEEL_ZOOM_STEP) }));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [image]);
+
+  const rotate = (quarterTurns: number) => {
+    update(prev => ({ ...prev, rotation: (((prev.rotation + quarterTurns * 90) % 360) + 360) % 360 as CropFraming['rotation'] }));
+  };
+
+  const handleApply = () => {
+    if (!image) return;
+    try {
+      onApply(renderCrop(image, framing));
+    } catch (error) {
+      console.error("Crop failed:", error);
+      onError(toUploadError(error));
+    }
+  };
+
+  const scale = image ? framingScale(image.naturalWidth, image.naturalHeight, framing) * windowWidth : 0;
+  const controlClass = 'h-8 px-2 flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider bg-black/70 hover:bg-black text-white rounded-sm transition-colors';
+
+  return (
+    <div className="h-96 relative bg-black overflow-hidden flex items-center justify-center">
+      <div
+        ref={windowRef}
+        className="relative h-[85%] aspect-[3/4] touch-none cursor-move select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {image && (
+          <img
+            src={source}
+            alt={images.cropSource}
+            draggable={false}
+            className="absolute left-1/2 top-1/2 max-w-none pointer-events-none"
+            style={{
+              width: image.naturalWidth,
+              height: image.naturalHeight,
+              transform: `translate(-50%, -50%) translate(${framing.offsetX * windowWidth}px, ${framing.offsetY * windowWidth}px) rotate(${framing.rotation}deg) scale(${scale})`,
+            }}
+          />
+        )}
+
+        {/* Dim the context outside the window */}
+        <div className="absolute inset-0 pointer-events-none shadow-[0_0_0_100vmax_rgba(0,0,0,0.65)]"></div>
+
+        {/* Window corners, themed like the upload panel */}
+        {activeTheme.decoration === 'brackets' && (
+          <>
+            <div className={`absolute top-0 left-0 w-4 h-4 border-t-2 border-l-2 ${palette.decoration}`}></div>
+            <div className={`absolute top-0 right-0 w-4 h-4 border-t-2 border-r-2 ${palette.decoration}`}></div>
+            <div className={`absolute bottom-0 left-0 w-4 h-4 border-b-2 border-l-2 ${palette.decoration}`}></div>
+            <div className={`absolute bottom-0 right-0 w-4 h-4 border-b-2 border-r-2 ${palette.decoration}`}></div>
+          </>
+        )}
+        {activeTheme.decoration === 'ornament' && OrnamentIcon && (
+          <>
+            <div className={`absolute inset-0 border ${palette.border}`}></div>
+            <div className={`absolute -top-3 -left-3 ${palette.decoration}`}><OrnamentIcon size={20} /></div>
+            <div className={`absolute -bottom-3 -right-3 ${palette.decoration}`}><OrnamentIcon size={20} /></div>
+          </>
+        )}
+      </div>
+
+      <button onClick={onCancel} className="absolute top-2 right-2 bg-red-600/80 hover:bg-red-500 text-white p-2 rounded-sm backdrop-blur-sm transition-colors" title={controls.cancel}>
+        <X size={16} />
+      </button>
+
+      <div className="absolute top-2 left-2 flex gap-1">
+        <button onClick={() => rotate(-1)} className={controlClass} title={crop.rotateLeft} aria-label={crop.rotateLeft}>
+          <RotateCcw size={14} />
+        </button>
+        <button onClick={() => rotate(1)} className={controlClass} title={crop.rotateRight} aria-label={crop.rotateRight}>
+          <RotateCw size={14} />
+        </button>
+        <button onClick={() => setFraming(DEFAULT_FRAMING)} className={controlClass}>
+          {crop.reset}
+        </button>
+      </div>
+
+      <div className="absolute bottom-2 inset-x-2 flex items-center gap-2">
+        <input
+          type="range"
+          min={1}
+          max={MAX_CROP_ZOOM}
+          step={0.01}
+          value={framing.zoom}
+          onChange={e => update(prev => ({ ...prev, zoom: Number(e.target.value) }))}
+          className="flex-1 accent-current"
+          aria-label={controls.zoom}
+        />
+        <button onClick={handleApply} disabled={!image} className={`h-8 px-3 flex items-center gap-1 text-xs font-bold uppercase tracking-wider rounded-sm ${palette.button} ${palette.buttonText}`}>
+          <Check size={14} />
+          <span>{crop.apply}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CropEditor;
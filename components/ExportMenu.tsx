@@ -0,0 +1,82 @@
+import React from 'react';
+import { Download, Film, RefreshCw } from 'lucide-react';
+import { LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { POSTER_SIZES, PosterFormat, PosterSize } from '../services/posterExport';
+import { ClipFormat, isWebmSupported } from '../services/clipExport';
+
+interface ExportMenuProps {
+  theme: ThemeMode;
+  locale: LocaleId;
+  size: PosterSize;
+  format: PosterFormat;
+  onSizeChange: (size: PosterSize) => void;
+  onFormatChange: (format: PosterFormat) => void;
+  onExport: () => void;
+  onExportClip: (format: ClipFormat) => void;
+  busy: boolean;
+  // 0-1 while a clip is rendering, otherwise null
+  clipProgress: number | null;
+}
+
+const FORMATS: PosterFormat[] = ['png', 'jpeg'];
+
+// Size/format picker for the composited poster download
+const ExportMenu: React.FC<ExportMenuProps> = ({ theme, locale, size, format, onSizeChange, onFormatChange, onExport, onExportClip, busy, clipProgress }) => {
+  const { palette } = getTheme(theme);
+  const messages = getLocale(locale).messages;
+
+  const optionClass = (active: boolean) =>
+    `px-2 py-1 text-[10px] font-bold uppercase tracking-wider border rounded-sm transition-colors ${
+      active ? `${palette.button} ${palette.buttonText} border-transparent` : `${palette.border} opacity-60 hover:opacity-100`
+    }`;
+
+  return (
+    <div className={`${palette.panelBackground} border ${palette.border} p-3 rounded-md shadow-lg flex flex-col gap-3 w-56`}>
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(POSTER_SIZES) as PosterSize[]).map(key => (
+          <button key={key} onClick={() => onSizeChange(key)} className={optionClass(key === size)}>
+            {messages.posterSizes[key]}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {FORMATS.map(key => (
+          <button key={key} onClick={() => onFormatChange(key)} className={optionClass(key === format)}>
+            {key}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={onExport}
+        disabled={busy}
+        className={`${palette.button} ${palette.buttonText} h-9 flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider rounded-md`}
+      >
+        {busy ? <span className="animate-spin"><RefreshCw size={14} /></span> : <Download size={14} />}
+        <span>{messages.controls.download}</span>
+      </button>
+      <div className={`border-t ${palette.border} pt-3 flex flex-col gap-2`}>
+        <span className={`${palette.panelHeading} text-[10px]`}>{messages.export.clip}</span>
+        {clipProgress !== null ? (
+          <div className={`h-2 w-full border ${palette.border} rounded-sm overflow-hidden`}>
+            <div className={`h-full ${palette.tickBar} transition-all`} style={{ width: `${Math.round(clipProgress * 100)}%` }}></div>
+          </div>
+        ) : (
+          <div className="flex gap-1">
+            {isWebmSupported() && (
+              <button onClick={() => onExportClip('webm')} disabled={busy} className={`${optionClass(false)} flex items-center gap-1`}>
+                <Film size={12} /> WebM
+              </button>
+            )}
+            <button onClick={() => onExportClip('gif')} disabled={busy} className={`${optionClass(false)} flex items-center gap-1`}>
+              <Film size={12} /> GIF
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Columns2, RefreshCw, Redo2, Send, Undo2 } from 'lucide-react';
+import { GenerationErrorKind, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { formatMessage } from '../services/i18n';
+import { MAX_EDIT_INSTRUCTION_LENGTH } from '../services/promptBuilder';
+import { EditStack, canRedo, canUndo, currentVersion, previousVersion } from '../services/editStack';
+
+interface FieldAdjustmentsProps {
+  theme: ThemeMode;
+  locale: LocaleId;
+  stack: EditStack;
+  busy: boolean;
+  // Kind of the last failed edit, cleared on the next attempt
+  errorKind: GenerationErrorKind | null;
+  onSubmit: (instruction: string) => void;
+  onCancel: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (index: number) => void;
+}
+
+// Follow-up edits to the finished poster ("make it night-time"). Each edit
+// adds a version; earlier ones stay reachable through undo, redo and the
+// version list, and the current one can be compared with the one before it.
+const FieldAdjustments: React.FC<FieldAdjustmentsProps> = ({ theme, locale, stack, busy, errorKind, onSubmit, onCancel, onUndo, onRedo, onSelect }) => {
+  const { palette, copy, adjustments, errors } = getTheme(theme, locale);
+  const { adjustments: labels, images } = getLocale(locale).messages;
+  const [instruction, setInstruction] = useState('');
+  const [comparing, setComparing] = useState(false);
+
+  const current = currentVersion(stack);
+  const previous = previousVersion(stack);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = instruction.trim();
+    if (!trimmed || busy) return;
+    onSubmit(trimmed);
+    setInstruction('');
+  };
+
+  const iconButton = `flex items-center justify-center w-9 h-9 border rounded-sm transition-opacity ${palette.border} disabled:opacity-30 enabled:hover:opacity-100 opacity-70`;
+  const versionLabel = (index: number) => (index === 0 ? labels.original : formatMessage(labels.version, { number: index }));
+
+  return (
+    <div className={`w-full ${palette.panelBackground} border ${palette.border} p-4 flex flex-col gap-4`}>
+      <div className="flex items-center justify-between gap-3">
+        <h3 className={`${palette.panelHeading} text-xs`}>{adjustments.title}</h3>
+        <div className="flex gap-1">
+          <button onClick={onUndo} disabled={busy || !canUndo(stack)} className={iconButton} title={labels.undo} aria-label={labels.undo}>
+            <Undo2 size={16} />
+          </button>
+          <button onClick={onRedo} disabled={busy || !canRedo(stack)} className={iconButton} title={labels.redo} aria-label={labels.redo}>
+            <Redo2 size={16} />
+          </button>
+          <button
+            onClick={() => setComparing(prev => !prev)}
+            disabled={!previous}
+            className={iconButton}
+            title={labels.compare}
+            aria-label={labels.compare}
+            aria-pressed={comparing && !!previous}
+          >
+            <Columns2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          maxLength={MAX_EDIT_INSTRUCTION_LENGTH}
+          placeholder={adjustments.placeholder}
+          aria-label={adjustments.title}
+          disabled={busy}
+          className={`flex-1 min-w-0 bg-transparent border ${palette.border} px-3 h-10 text-sm rounded-sm`}
+        />
+        {busy ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`h-10 px-4 text-xs font-bold uppercase tracking-wider border rounded-sm ${palette.border} opacity-70 hover:opacity-100 transition-opacity`}
+          >
+            {copy.abort}
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!instruction.trim()}
+            className={`flex items-center gap-2 h-10 px-4 text-xs font-bold uppercase tracking-wider rounded-sm ${palette.button} ${palette.buttonText} disabled:opacity-40`}
+          >
+            <Send size={14} /> {adjustments.apply}
+          </button>
+        )}
+      </form>
+
+      {busy && (
+        <div className={`flex items-center gap-2 text-xs uppercase tracking-widest ${palette.accent}`} role="status">
+          <span className="animate-spin"><RefreshCw size={14} /></span> {adjustments.working}
+        </div>
+      )}
+      {errorKind && !busy && (
+        <div className="flex items-center gap-2 text-xs text-red-400" role="alert">
+          <AlertTriangle size={14} /> {errors.messages[errorKind]}
+        </div>
+      )}
+
+      {comparing && previous && (
+        <div className="grid grid-cols-2 gap-3">
+          {[
+            { version: previous, label: labels.previous },
+            { version: current, label: labels.current },
+          ].map(({ version, label }) => (
+            <figure key={version.id} className="flex flex-col gap-1">
+              <img src={version.imageUrl} alt={`${images.result} (${label})`} className={`w-full aspect-[3/4] object-cover border ${palette.border}`} />
+              <figcaption className="text-[10px] uppercase tracking-widest opacity-70">
+                {label}{version.instruction && <span className="normal-case tracking-normal"> — {version.instruction}</span>}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+
+      {stack.versions.length > 1 && (
+        <ol className="flex flex-col gap-1 text-xs">
+          {stack.versions.map((version, index) => (
+            <li key={version.id}>
+              <button
+                onClick={() => onSelect(index)}
+                disabled={busy}
+                aria-current={index === stack.index}
+                className={`w-full text-start px-2 py-1 border-s-2 transition-opacity ${
+                  index === stack.index ? `${palette.selected} opacity-100` : 'border-transparent opacity-60 hover:opacity-100'
+                }`}
+              >
+                <span className="font-bold uppercase tracking-wider">{versionLabel(index)}</span>
+                {version.instruction && <span className="ms-2">{version.instruction}</span>}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default FieldAdjustments;
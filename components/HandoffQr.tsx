@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { Smartphone } from 'lucide-react';
+import { HandoffTicket, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { formatMessage } from '../services/i18n';
+import { QR_QUIET_ZONE, encodeQr, qrPath } from '../services/qrCode';
+
+interface HandoffQrProps {
+  theme: ThemeMode;
+  locale: LocaleId;
+  // Null until the guest asks for a link and the upload finishes
+  ticket: HandoffTicket | null;
+  pending: boolean;
+  failed: boolean;
+  // Uploads the poster; nothing leaves the kiosk before this
+  onRequest: () => void;
+}
+
+// Kiosk mode: the QR code a guest scans to pull their poster onto their phone
+const HandoffQr: React.FC<HandoffQrProps> = ({ theme, locale, ticket, pending, failed, onRequest }) => {
+  const { palette } = getTheme(theme, locale);
+  const { kiosk } = getLocale(locale).messages;
+  const qr = useMemo(() => (ticket ? encodeQr(ticket.url) : null), [ticket]);
+  const minutes = ticket ? Math.max(1, Math.round((ticket.expiresAt - Date.now()) / 60_000)) : 0;
+
+  return (
+    <div className={`flex flex-col md:flex-row items-center gap-6 p-6 border ${palette.border} ${palette.panelBackground}`}>
+      <div className="w-48 h-48 shrink-0 bg-white flex items-center justify-center">
+        {qr ? (
+          // Always dark on white: scanners struggle with inverted or tinted codes
+          <svg
+            viewBox={`0 0 ${qr.size + QR_QUIET_ZONE * 2} ${qr.size + QR_QUIET_ZONE * 2}`}
+            className="w-full h-full"
+            shapeRendering="crispEdges"
+            role="img"
+            aria-label={kiosk.handoffHint}
+          >
+            <path d={qrPath(qr)} fill="#000" />
+          </svg>
+        ) : pending ? (
+          <div className="w-10 h-10 border-4 border-gray-300 border-t-black rounded-full animate-spin" aria-hidden="true"></div>
+        ) : (
+          <Smartphone size={48} className="text-gray-400" aria-hidden="true" />
+        )}
+      </div>
+      <div className="text-center md:text-start space-y-2 max-w-xs">
+        <h2 className={`${palette.panelHeading} text-lg`}>{kiosk.handoffTitle}</h2>
+        <p className={`text-sm ${palette.panelList}`}>{failed ? kiosk.handoffFailed : ticket || pending ? kiosk.handoffHint : kiosk.handoffOffer}</p>
+        {ticket && (
+          <p className="text-xs opacity-60">{formatMessage(kiosk.handoffExpires, { minutes })}</p>
+        )}
+        {!ticket && !pending && (
+          <button
+            onClick={onRequest}
+            className={`h-12 px-6 inline-flex items-center gap-2 text-sm font-bold uppercase tracking-wider rounded-sm ${palette.button} ${palette.buttonText}`}
+          >
+            <Smartphone size={18} />
+            <span>{kiosk.handoffAction}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HandoffQr;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Download, Eye, Trash2, X } from 'lucide-react';
+import { GeneratedImage, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { clearHistory, deleteFromHistory, listHistory } from '../services/historyService';
+import { formatMessage } from '../services/i18n';
+
+interface HistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  onReopen: (record: GeneratedImage) => void;
+  theme: ThemeMode;
+  locale: LocaleId;
+  // Bumped by the parent whenever a new record is saved
+  refreshKey: number;
+}
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ open, onClose, onReopen, theme, locale, refreshKey }) => {
+  const { palette, copy } = getTheme(theme, locale);
+  const { controls, images, history } = getLocale(locale).messages;
+  const [records, setRecords] = useState<GeneratedImage[]>([]);
+  // IndexedDB can fail (storage evicted, private mode, quota)
+  const [failed, setFailed] = useState(false);
+
+  const refresh = () => {
+    listHistory()
+      .then(setRecords)
+      .catch(error => {
+        console.warn("Could not load history:", error);
+        setFailed(true);
+      });
+  };
+
+  useEffect(() => {
+    if (open) {
+      setFailed(false);
+      refresh();
+    }
+  }, [open, refreshKey]);
+
+  const handleDelete = (id: string) => {
+    setFailed(false);
+    deleteFromHistory(id)
+      .catch(error => {
+        console.warn("Could not delete history record:", error);
+        setFailed(true);
+      })
+      .finally(refresh);
+  };
+
+  const handleClear = () => {
+    if (!confirm(formatMessage(history.confirmClear, { action: copy.clearHistory }))) return;
+    setFailed(false);
+    clearHistory()
+      .catch(error => {
+        console.warn("Could not clear history:", error);
+        setFailed(true);
+      })
+      .finally(refresh);
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+      <aside className={`relative w-full max-w-sm h-full ${palette.background} border-s ${palette.border} flex flex-col animate-in slide-in-from-right duration-300`}>
+        <div className={`flex items-center justify-between p-4 border-b ${palette.border}`}>
+          <h2 className={`${palette.panelHeading} text-sm`}>{copy.history}</h2>
+          <button onClick={onClose} className="opacity-60 hover:opacity-100 transition-opacity" title={controls.close}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {failed && (
+            <div role="alert" className="bg-red-950/90 border border-red-500/50 p-3 flex items-center gap-3 text-red-300 text-xs">
+              <AlertTriangle size={16} className="shrink-0" />
+              <span className="flex-1">{history.failed}</span>
+              <button onClick={() => setFailed(false)} className="shrink-0 hover:text-white transition-colors" title={controls.dismiss} aria-label={controls.dismiss}>
+                <X size={14} />
+              </button>
+            </div>
+          )}
+          {records.length === 0 && !failed && (
+            <p className={`text-xs opacity-60 text-center mt-8 ${palette.panelList}`}>{copy.historyEmpty}</p>
+          )}
+          {records.map(record => (
+            <div key={record.id} className={`flex gap-3 border ${palette.container} p-2`}>
+              <div className="relative w-20 shrink-0 aspect-[3/4] bg-black overflow-hidden">
+                <img src={record.imageUrl} alt={images.result} className="w-full h-full object-cover" />
+                <img src={record.sourceThumbnail} alt={images.source} className={`absolute bottom-1 end-1 w-6 h-8 object-cover border border-white/50 ${palette.previewFilter}`} />
+              </div>
+              <div className="flex-1 flex flex-col justify-between min-w-0">
+                <div className={`text-[10px] uppercase tracking-widest ${palette.panelList}`}>
+                  <div className={palette.accent}>{getTheme(record.theme, locale).name}</div>
+                  <div className="opacity-60">{new Date(record.createdAt).toLocaleString(locale)}</div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onReopen(record)}
+                    className={`${palette.button} ${palette.buttonText} p-2 rounded-full`}
+                    title={controls.open}
+                  >
+                    <Eye size={14} />
+                  </button>
+                  <a
+                    href={record.imageUrl}
+                    download={`protocol-${record.theme.toLowerCase()}-${record.createdAt}.png`}
+                    className={`${palette.button} ${palette.buttonText} p-2 rounded-full`}
+                    title={controls.download}
+                  >
+                    <Download size={14} />
+                  </a>
+                  <button
+                    onClick={() => handleDelete(record.id)}
+                    className="bg-red-900/40 hover:bg-red-700 text-red-200 p-2 rounded-full transition-colors"
+                    title={controls.delete}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {records.length > 0 && (
+          <div className={`p-4 border-t ${palette.border}`}>
+            <button
+              onClick={handleClear}
+              className="w-full h-10 flex items-center justify-center gap-2 border border-red-500/50 text-red-400 hover:bg-red-900/20 text-xs font-bold uppercase tracking-[0.2em] transition-colors rounded-md"
+            >
+              <Trash2 size={14} />
+              <span>{copy.clearHistory}</span>
+            </button>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
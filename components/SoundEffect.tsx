@@ -1,15 +1,43 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { audioEngine } from '../services/audioEngine';
+import { prefersReducedMotion } from '../services/reducedMotion';
+
+// Visual "thump" lines driven by the live audio envelope from the engine's
+// analyser. Styles are written straight to the DOM each frame to avoid
+// re-rendering at 60fps.
+const SoundEffect: React.FC<{ theme: ThemeMode }> = ({ theme }) => {
+  const { palette } = getTheme(theme);
+  const lineRef = useRef<HTMLDivElement>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      // The flash stays dark for visitors who asked for less motion
+      const level = prefersReducedMotion() ? 0 : audioEngine.getLevel();
+      if (lineRef.current) {
+        lineRef.current.style.opacity = String(level);
+        lineRef.current.style.transform = `scaleY(${1 + level * 4})`;
+      }
+      if (barRef.current) {
+        barRef.current.style.opacity = String(Math.min(1, level * 2));
+      }
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, []);
 
-// Since we cannot reliably autoplay audio without user interaction, 
-// we use a visual "thump" bar that mimics the famous sound wave.
-const SoundEffect: React.FC<{ active: boolean }> = ({ active }) => {
   return (
-    <div className="fixed top-0 left-0 w-full h-full pointer-events-none z-50 overflow-hidden flex items-center justify-center opacity-20">
-       {active && (
-         <div className="w-full h-1 bg-yellow-500 absolute top-1/2 shadow-[0_0_50px_20px_rgba(234,179,8,0.8)] animate-ping"></div>
-       )}
-    </div>
+    <>
+      <div className="fixed top-0 left-0 w-full h-full pointer-events-none z-50 overflow-hidden flex items-center justify-center opacity-20">
+        <div ref={lineRef} className={`w-full h-1 absolute top-1/2 shadow-[0_0_50px_20px_rgba(255,255,255,0.5)] ${palette.tickPing}`} style={{ opacity: 0 }}></div>
+      </div>
+      <div ref={barRef} className={`fixed bottom-0 left-0 w-full h-1 pointer-events-none ${palette.tickBar}`} style={{ opacity: 0 }}></div>
+    </>
   );
 };
 
-export default SoundEffect;
\ No newline at end of file
+export default SoundEffect;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { ClockDisplay, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import Clock from './Clock';
+
+type PanelRole = 'agent' | 'surveillance' | 'face' | 'clock';
+
+interface SplitScreenProps {
+  generatedImage: string;
+  // Falls back to the generated image when reopening from history
+  sourceImage: string | null;
+  panelCount: number;
+  targetDate: Date;
+  display: ClockDisplay;
+  theme: ThemeMode;
+  locale: LocaleId;
+}
+
+// Which feeds appear for each panel count; the clock always gets its own box
+const PANEL_ROLES: Record<number, PanelRole[]> = {
+  2: ['agent', 'clock'],
+  3: ['agent', 'surveillance', 'clock'],
+  4: ['agent', 'surveillance', 'face', 'clock'],
+};
+
+// Portrait (9:16) stacks the feeds; landscape (16:9) uses the boxed grid
+const GRID_CLASSES: Record<number, string> = {
+  2: 'grid-rows-2 md:grid-rows-1 md:grid-cols-2',
+  3: 'grid-rows-3 md:grid-rows-2 md:grid-cols-2',
+  4: 'grid-rows-2 grid-cols-2',
+};
+
+// Each panel slides in from a different side (see the panel-in keyframes in App)
+const ENTRANCES = [
+  { '--panel-dx': '-2rem', '--panel-dy': '0' },
+  { '--panel-dx': '0', '--panel-dy': '-2rem' },
+  { '--panel-dx': '2rem', '--panel-dy': '0' },
+  { '--panel-dx': '0', '--panel-dy': '2rem' },
+];
+
+// The show's multi-cam split screen: one boxed panel per feed
+const SplitScreen: React.FC<SplitScreenProps> = ({ generatedImage, sourceImage, panelCount, targetDate, display, theme, locale }) => {
+  const { palette, overlay, copy, ambience } = getTheme(theme, locale);
+  const { images } = getLocale(locale).messages;
+  const roles = PANEL_ROLES[panelCount] ?? PANEL_ROLES[2];
+
+  const renderFeed = (role: PanelRole) => {
+    switch (role) {
+      case 'agent':
+        return <img src={generatedImage} alt={images.result} className="w-full h-full object-cover" />;
+      case 'surveillance':
+        return (
+          <>
+            <img src={sourceImage ?? generatedImage} alt={images.surveillance} className="w-full h-full object-cover grayscale contrast-125 brightness-90" />
+            {ambience.scanlines && <div className="absolute inset-0 scanline pointer-events-none"></div>}
+          </>
+        );
+      case 'face':
+        // Portraits put the face in the upper third, so zoom there
+        return <img src={generatedImage} alt={images.closeUp} className="w-full h-full object-cover object-[50%_20%] scale-[1.8] origin-[50%_25%]" />;
+      case 'clock':
+        return (
+          <div className={`w-full h-full flex flex-col items-center justify-center ${palette.overlayPanel}`}>
+            <p className={`${palette.overlayHeading} mb-1 animate-pulse`}>{copy.overlayHeading}</p>
+            {/* Half-width boxes can't fit the full-size digits */}
+            {panelCount === 4 ? (
+              <Clock targetDate={targetDate} variant="small" display={display} announce theme={theme} locale={locale} />
+            ) : (
+              <div className="md:scale-75 lg:scale-[0.8]">
+                <Clock targetDate={targetDate} variant="large" display={display} announce theme={theme} locale={locale} />
+              </div>
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    // Keyed on the count so the panels animate in again when the layout changes
+    <div key={panelCount} className={`absolute inset-0 grid gap-1 bg-black p-1 ${GRID_CLASSES[panelCount] ?? GRID_CLASSES[2]}`}>
+      {roles.map((role, i) => (
+        <div
+          key={role}
+          className={`relative overflow-hidden border ${palette.border} ${panelCount === 3 && i === 0 ? 'md:row-span-2' : ''}`}
+          style={{ ...ENTRANCES[i % ENTRANCES.length], animation: `panel-in 600ms ease-out ${i * 150}ms both` } as React.CSSProperties}
+        >
+          {renderFeed(role)}
+          <div className={`absolute top-2 left-2 ${palette.feedTag} text-[10px] font-bold px-1.5 py-0.5 font-mono pointer-events-none`}>
+            {overlay.camLabels[i]}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SplitScreen;
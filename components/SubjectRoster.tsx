@@ -0,0 +1,66 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Plus, X } from 'lucide-react';
+import { GroupSubject, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { formatMessage } from '../services/i18n';
+import { MAX_GROUP_SUBJECTS, MIN_GROUP_SUBJECTS } from '../services/teamPoster';
+
+interface SubjectRosterProps {
+  subjects: GroupSubject[];
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  disabled?: boolean;
+  theme: ThemeMode;
+  locale: LocaleId;
+}
+
+// Group protocol line-up: the order here is the order sent to the model
+const SubjectRoster: React.FC<SubjectRosterProps> = ({ subjects, onAdd, onRemove, onMove, disabled, theme, locale }) => {
+  const { palette, group, fonts } = getTheme(theme, locale);
+  const { upload, controls, images } = getLocale(locale).messages;
+  const controlClass = 'bg-black/70 hover:bg-black text-white p-1 rounded-sm disabled:opacity-30 transition-colors';
+
+  return (
+    <div className="h-96 flex flex-col gap-2 p-2">
+      <div className="flex items-center justify-between">
+        <span className={`${palette.panelHeading} text-xs`}>{group.name}</span>
+        <span className={`opacity-60 text-[10px] ${fonts.caption}`}>
+          {formatMessage(upload.roster, { count: subjects.length, max: MAX_GROUP_SUBJECTS, min: MIN_GROUP_SUBJECTS })}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 flex-1 min-h-0 auto-rows-fr">
+        {subjects.map((subject, i) => (
+          <div key={subject.id} className={`relative bg-black overflow-hidden border ${palette.border}`}>
+            <img src={subject.image} alt={formatMessage(images.subject, { number: i + 1 })} className={`w-full h-full object-cover opacity-80 ${palette.previewFilter}`} />
+            <span className={`absolute top-1 left-1 ${palette.feedTag} text-[10px] font-bold px-1`}>{String(i + 1).padStart(2, '0')}</span>
+            <button onClick={() => onRemove(subject.id)} disabled={disabled} className={`absolute top-1 right-1 ${controlClass}`} title={controls.remove}>
+              <X size={12} />
+            </button>
+            <div className="absolute bottom-1 inset-x-1 flex justify-between">
+              <button onClick={() => onMove(subject.id, -1)} disabled={disabled || i === 0} className={controlClass} title={controls.moveEarlier}>
+                <ChevronLeft size={12} className="rtl:-scale-x-100" />
+              </button>
+              <button onClick={() => onMove(subject.id, 1)} disabled={disabled || i === subjects.length - 1} className={controlClass} title={controls.moveLater}>
+                <ChevronRight size={12} className="rtl:-scale-x-100" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {subjects.length < MAX_GROUP_SUBJECTS && (
+          <button
+            onClick={onAdd}
+            disabled={disabled}
+            className={`border-2 border-dashed ${palette.dropZone} ${palette.dropZoneHover} flex flex-col items-center justify-center gap-1 transition-all`}
+          >
+            <Plus className={palette.uploadIcon} />
+            <span className={`text-[10px] uppercase tracking-wider ${palette.accent}`}>{group.addSubject}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SubjectRoster;
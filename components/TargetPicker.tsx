@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { ClockDisplay, ClockFormat, CountdownPreset, CountdownTarget, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { COUNTDOWN_PRESETS } from '../services/countdownTarget';
+import { CLOCK_FORMATS } from './sevenSegment';
+
+interface TargetPickerProps {
+  target: CountdownTarget;
+  onChange: (target: CountdownTarget) => void;
+  display: ClockDisplay;
+  onDisplayChange: (display: ClockDisplay) => void;
+  theme: ThemeMode;
+  locale: LocaleId;
+}
+
+const listTimeZones = (current: string): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+};
+
+// On/off flags shown as checkboxes under the clock format
+const DISPLAY_FLAGS = ['tenths', 'countUp', 'blankLeadingZeros'] as const;
+
+// Preset / time zone / custom date controls for the countdown, plus how
+// the clock shows it
+const TargetPicker: React.FC<TargetPickerProps> = ({ target, onChange, display, onDisplayChange, theme, locale }) => {
+  const { palette, copy } = getTheme(theme, locale);
+  const { presets, clockDisplay } = getLocale(locale).messages;
+  const timeZones = useMemo(() => listTimeZones(target.timeZone), [target.timeZone]);
+  const fieldClass = `bg-transparent border ${palette.border} rounded-sm px-2 py-1 text-xs ${palette.panelList}`;
+
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = e.target.value as CountdownPreset;
+    if (preset === 'custom') {
+      // Seed the custom field with a week from now, in local wall time
+      const seed = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+      seed.setMinutes(seed.getMinutes() - seed.getTimezoneOffset());
+      onChange({ ...target, preset, custom: target.custom ?? seed.toISOString().slice(0, 16) });
+    } else {
+      onChange({ ...target, preset });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 mt-4">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <span className={`${palette.panelHeading} text-[10px]`}>{copy.targetLabel}</span>
+        <select value={target.preset} onChange={handlePresetChange} className={fieldClass}>
+          {COUNTDOWN_PRESETS.map(preset => (
+            <option key={preset} value={preset} className="bg-black">{presets[preset]}</option>
+          ))}
+        </select>
+        {target.preset === 'custom' && (
+          <input
+            type="datetime-local"
+            value={target.custom ?? ''}
+            onChange={e => e.target.value && onChange({ ...target, custom: e.target.value })}
+            className={fieldClass}
+          />
+        )}
+        <select value={target.timeZone} onChange={e => onChange({ ...target, timeZone: e.target.value })} className={`${fieldClass} max-w-[12rem]`}>
+          {timeZones.map(zone => (
+            <option key={zone} value={zone} className="bg-black">{zone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <select
+          value={display.format}
+          onChange={e => onDisplayChange({ ...display, format: e.target.value as ClockFormat })}
+          className={fieldClass}
+        >
+          {CLOCK_FORMATS.map(format => (
+            <option key={format} value={format} className="bg-black">{clockDisplay.formats[format]}</option>
+          ))}
+        </select>
+        {DISPLAY_FLAGS.map(flag => (
+          <label key={flag} className={`flex items-center gap-1.5 text-[10px] uppercase tracking-wider cursor-pointer ${palette.panelList}`}>
+            <input
+              type="checkbox"
+              checked={display[flag]}
+              onChange={e => onDisplayChange({ ...display, [flag]: e.target.checked })}
+              className="accent-current"
+            />
+            {clockDisplay[flag]}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TargetPicker;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { AlertTriangle, Check, Download, RefreshCw } from 'lucide-react';
+import { GenerationErrorKind, GenerationVariant, LocaleId, ThemeMode } from '../types';
+import { getTheme } from '../themes';
+import { getLocale } from '../locales';
+import { formatMessage } from '../services/i18n';
+
+interface VariantGalleryProps {
+  variants: GenerationVariant[];
+  selectedId: string | null;
+  onSelect: (variant: GenerationVariant) => void;
+  theme: ThemeMode;
+  locale: LocaleId;
+}
+
+// Contact sheet of every variant from the current run. Finished variants can
+// be promoted into the cinematic view or downloaded individually.
+const VariantGallery: React.FC<VariantGalleryProps> = ({ variants, selectedId, onSelect, theme, locale }) => {
+  const { palette, copy, errors } = getTheme(theme, locale);
+  const { controls, images } = getLocale(locale).messages;
+
+  return (
+    <div className="w-full">
+      <h3 className={`${palette.panelHeading} text-xs mb-3`}>{copy.gallery}</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {variants.map((variant, index) => {
+          const isSelected = variant.id === selectedId;
+          const label = `#${String(index + 1).padStart(2, '0')}`;
+
+          return (
+            <div
+              key={variant.id}
+              className={`relative aspect-[3/4] border-2 overflow-hidden bg-black ${isSelected ? palette.selected : palette.border}`}
+            >
+              {variant.status === 'done' && variant.imageUrl ? (
+                <>
+                  <button onClick={() => onSelect(variant)} className="w-full h-full block" title={label}>
+                    <img src={variant.imageUrl} alt={formatMessage(images.variant, { label })} className="w-full h-full object-cover" />
+                  </button>
+                  <a
+                    href={variant.imageUrl}
+                    download={`protocol-${theme.toLowerCase()}-${index + 1}.png`}
+                    className={`absolute bottom-2 right-2 ${palette.button} ${palette.buttonText} p-2 rounded-full shadow-lg`}
+                    title={controls.download}
+                  >
+                    <Download size={14} />
+                  </a>
+                  {isSelected && (
+                    <div className={`absolute top-2 right-2 ${palette.button} ${palette.buttonText} p-1 rounded-full`}>
+                      <Check size={12} />
+                    </div>
+                  )}
+                </>
+              ) : variant.status === 'failed' ? (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-2 p-3 text-center text-red-400 bg-red-900/20">
+                  <AlertTriangle size={20} />
+                  <span className="text-[10px] leading-tight opacity-80">{errors.messages[variant.errorKind ?? GenerationErrorKind.UNKNOWN]}</span>
+                </div>
+              ) : (
+                <div className={`w-full h-full flex flex-col items-center justify-center gap-2 text-xs ${palette.accent}`}>
+                  {variant.status === 'running' ? (
+                    <>
+                      <span className="animate-spin"><RefreshCw size={20} /></span>
+                      <span className="uppercase tracking-widest">{copy.processing}</span>
+                    </>
+                  ) : (
+                    <span className="uppercase tracking-widest opacity-60">{copy.queued}</span>
+                  )}
+                </div>
+              )}
+              <span className={`absolute top-2 left-2 ${palette.feedTag} text-[10px] font-bold px-1.5 py-0.5`}>{label}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariantGallery;
@@ -0,0 +1,203 @@
+import { ClockDisplay, ClockUnit, CountdownStatus, CountdownTarget, LocaleId, ThemeMode } from '../types';
+import { DEFAULT_THEME, isThemeMode } from '../themes/registry';
+import { POSTER_PALETTES } from '../themes/posterPalettes';
+import { DEFAULT_LOCALE, getLocale, isLocaleId, matchLocale } from '../locales';
+import { Ticker, ticker as sharedTicker } from '../services/ticker';
+import { clockDisplayFromSearch, countdownStatus, targetFromSearch } from '../services/countdownTarget';
+import { formatMessage } from '../services/i18n';
+import { SEGMENT_PATHS, SegmentGlyph, clockGroups, clockMilliseconds, clockSummary, glyphSegments, separatorDots } from './sevenSegment';
+
+// <protocol-countdown>: the seven-segment clock for other sites, with no
+// React or Tailwind. Styles live in its shadow root and take their colours
+// from the theme's poster palette (themes/posterPalettes.ts), which is plain
+// CSS. Keep imports here free of React and lucide-react: take theme ids from
+// themes/registry.ts, not themes/index.ts.
+//
+//   <protocol-countdown target="christmasDay" theme="24" size="small"></protocol-countdown>
+//
+// `target` is a preset id or a custom wall time (YYYY-MM-DDTHH:mm). `tz`,
+// `clock`, `tenths`, `countup` and `blank` work as in countdown links, and
+// `lang` picks the label language.
+
+export const COUNTDOWN_ELEMENT = 'protocol-countdown';
+
+export type CountdownElementSize = 'small' | 'large';
+
+// Digit height per size; hosts can override with --protocol-countdown-height
+const DIGIT_HEIGHTS: Record<CountdownElementSize, number> = {
+  small: 40,
+  large: 96,
+};
+
+// Match Clock's per-second flash
+const PULSE_MS = 100;
+
+// Passed through to the countdown link parser unchanged
+const LINK_ATTRIBUTES = ['tz', 'at', 'clock', 'tenths', 'countup', 'blank'] as const;
+
+const CUSTOM_TARGET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+// The countdown link query an element's attributes describe
+export const searchFromAttributes = (get: (name: string) => string | null): string => {
+  const params = new URLSearchParams();
+  const target = get('target');
+  if (target && CUSTOM_TARGET.test(target)) {
+    params.set('target', 'custom');
+    params.set('at', target);
+  } else if (target) {
+    params.set('target', target);
+  }
+  for (const name of LINK_ATTRIBUTES) {
+    const value = get(name);
+    if (value !== null && !params.has(name)) params.set(name, value);
+  }
+  return `?${params.toString()}`;
+};
+
+const styles = (theme: ThemeMode, size: CountdownElementSize) => {
+  const poster = POSTER_PALETTES[theme];
+  return `
+    :host {
+      display: inline-block;
+      --digit-height: var(--protocol-countdown-height, ${DIGIT_HEIGHTS[size]}px);
+      font-family: 'Share Tech Mono', ui-monospace, monospace;
+    }
+    :host([hidden]) { display: none; }
+    .clock { display: flex; align-items: flex-start; justify-content: center; user-select: none; }
+    .group { display: flex; flex-direction: column; align-items: center; margin: 0 calc(var(--digit-height) * 0.05); }
+    .digits { display: flex; }
+    .digit { width: calc(var(--digit-height) * 0.625); height: var(--digit-height); filter: drop-shadow(0 0 2px ${poster.glow}); }
+    .separator { width: calc(var(--digit-height) * 0.25); height: var(--digit-height); }
+    .on, .dot { fill: ${poster.digit}; }
+    .off { fill: ${poster.digitInactive}; }
+    .pulse .on, .pulse .dot { fill: ${poster.digitPulse}; }
+    .pulse .digit { filter: drop-shadow(0 0 8px ${poster.glow}); }
+    .label {
+      margin-top: calc(var(--digit-height) * 0.06);
+      font-size: calc(var(--digit-height) * 0.2);
+      letter-spacing: 0.2em;
+      text-transform: uppercase;
+      color: ${poster.label};
+    }
+    .summary { position: absolute; width: 1px; height: 1px; overflow: hidden; clip-path: inset(50%); white-space: nowrap; }
+    @media (prefers-reduced-motion: reduce) {
+      .pulse .on, .pulse .dot { fill: ${poster.digit}; }
+      .pulse .digit { filter: drop-shadow(0 0 2px ${poster.glow}); }
+    }
+  `;
+};
+
+const digitSvg = (glyph: SegmentGlyph) => {
+  const active = new Set(glyphSegments(glyph));
+  const paths = Object.entries(SEGMENT_PATHS)
+    .map(([key, d]) => `<path d="${d}" class="${active.has(key) ? 'on' : 'off'}"/>`)
+    .join('');
+  return `<svg class="digit" viewBox="0 0 100 160">${paths}</svg>`;
+};
+
+const separatorSvg = (before: ClockUnit) => {
+  const dots = separatorDots(before)
+    .map(({ x, y, size }) => `<rect class="dot" x="${x}" y="${y}" width="${size}" height="${size}"/>`)
+    .join('');
+  return `<svg class="separator" viewBox="0 0 40 160">${dots}</svg>`;
+};
+
+export class ProtocolCountdown extends HTMLElement {
+  static observedAttributes = ['target', 'theme', 'size', 'lang', ...LINK_ATTRIBUTES];
+
+  // Swap before connecting to drive the clock from a fake time source
+  ticker: Ticker = sharedTicker;
+
+  private sheet = document.createElement('style');
+  private clock = document.createElement('div');
+  // Text alternative for the digits. Not a live region: announcing on
+  // someone else's page would be intrusive.
+  private summary = document.createElement('span');
+  private target: CountdownTarget = targetFromSearch('');
+  private display: ClockDisplay = clockDisplayFromSearch('');
+  private locale: LocaleId = DEFAULT_LOCALE;
+  private status: CountdownStatus | null = null;
+  private stopTicking: (() => void) | null = null;
+  private frame = 0;
+  private pulseTimer: number | undefined;
+
+  constructor() {
+    super();
+    this.clock.className = 'clock';
+    // Digits always read left to right, even in right-to-left locales
+    this.clock.dir = 'ltr';
+    this.clock.setAttribute('aria-hidden', 'true');
+    this.summary.className = 'summary';
+    this.attachShadow({ mode: 'open' }).append(this.sheet, this.summary, this.clock);
+  }
+
+  connectedCallback() {
+    if (!this.hasAttribute('role')) this.setAttribute('role', 'timer');
+    this.configure();
+    this.stopTicking = this.ticker.subscribe(this.handleTick);
+  }
+
+  disconnectedCallback() {
+    this.stopTicking?.();
+    this.stopTicking = null;
+    cancelAnimationFrame(this.frame);
+    window.clearTimeout(this.pulseTimer);
+  }
+
+  attributeChangedCallback() {
+    if (this.isConnected) this.configure();
+  }
+
+  // Re-read every attribute; they change rarely enough not to bother diffing
+  private configure() {
+    const search = searchFromAttributes(name => this.getAttribute(name));
+    const theme = this.getAttribute('theme');
+    const size = this.getAttribute('size') === 'large' ? 'large' : 'small';
+    const lang = this.getAttribute('lang');
+
+    this.target = targetFromSearch(search);
+    this.display = clockDisplayFromSearch(search);
+    this.locale = isLocaleId(lang) ? lang : matchLocale(navigator.languages ?? [navigator.language]) ?? DEFAULT_LOCALE;
+    this.status = null;
+    this.sheet.textContent = styles(isThemeMode(theme) ? theme : DEFAULT_THEME, size);
+
+    // The shared ticker fires once a second; tenths run off animation frames
+    cancelAnimationFrame(this.frame);
+    if (this.display.tenths) {
+      const step = () => {
+        this.render(this.ticker.now());
+        this.frame = requestAnimationFrame(step);
+      };
+      this.frame = requestAnimationFrame(step);
+    }
+    this.render(this.ticker.now());
+  }
+
+  private handleTick = (now: number) => {
+    this.render(now);
+    this.clock.classList.add('pulse');
+    window.clearTimeout(this.pulseTimer);
+    this.pulseTimer = window.setTimeout(() => this.clock.classList.remove('pulse'), PULSE_MS);
+  };
+
+  private render(now: number) {
+    // Only recompute the occurrence when it is due to change (e.g. yearly rollover)
+    if (!this.status || now >= +this.status.nextChange) this.status = countdownStatus(this.target, new Date(now));
+    const ms = clockMilliseconds(this.status.targetDate, new Date(now), this.display.countUp);
+    const groups = clockGroups(ms, this.display);
+    const { clock: labels, a11y } = getLocale(this.locale).messages;
+    const passed = this.display.countUp && now >= +this.status.targetDate;
+    const summary = formatMessage(passed ? a11y.elapsed : a11y.remaining, { time: clockSummary(ms, this.display.format, this.locale) });
+    // Only touch the text when it changes, which is every so often (see clockSummary)
+    if (this.summary.textContent !== summary) this.summary.textContent = summary;
+
+    this.clock.innerHTML = groups
+      .map((group, index) => `${index > 0 ? separatorSvg(group.unit) : ''}<div class="group"><div class="digits">${group.glyphs.map(digitSvg).join('')}</div><span class="label">${labels[group.unit]}</span></div>`)
+      .join('');
+  }
+}
+
+// Safe to call more than once, e.g. when a page includes the script twice
+export const defineCountdownElement = () => {
+  if (!customElements.get(COUNTDOWN_ELEMENT)) customElements.define(COUNTDOWN_ELEMENT, ProtocolCountdown);
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CLOCK_DISPLAY, clockGroups, clockMilliseconds } from './sevenSegment';
+import { ClockDisplay } from '../types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const render = (ms: number | null, display: Partial<ClockDisplay> = {}) =>
+  clockGroups(ms, { ...DEFAULT_CLOCK_DISPLAY, ...display })
+    .map(group => group.glyphs.map(glyph => (glyph === 'blank' ? ' ' : glyph === 'dash' ? '-' : glyph)).join(''))
+    .join(':');
+
+describe('clockMilliseconds', () => {
+  const target = new Date(10 * SECOND);
+
+  it('is the time left before the target', () => {
+    expect(clockMilliseconds(target, new Date(4 * SECOND))).toBe(6 * SECOND);
+  });
+
+  it('is zero at and after the target unless counting up', () => {
+    expect(clockMilliseconds(target, target)).toBe(0);
+    expect(clockMilliseconds(target, new Date(12 * SECOND))).toBe(0);
+    expect(clockMilliseconds(target, new Date(12 * SECOND), true)).toBe(2 * SECOND);
+  });
+});
+
+describe('clockGroups', () => {
+  it('pads every group in the default format', () => {
+    expect(render(0)).toBe('00:00:00:00');
+    expect(render(DAY - SECOND)).toBe('00:23:59:59');
+    expect(render(DAY)).toBe('01:00:00:00');
+  });
+
+  it('drops partial seconds rather than rounding up', () => {
+    expect(render(MINUTE - 1)).toBe('00:00:00:59');
+  });
+
+  it('widens the leading group past 99', () => {
+    expect(render(123 * DAY + 5 * HOUR + MINUTE + SECOND)).toBe('123:05:01:01');
+  });
+
+  it('sizes later groups from their parent unit', () => {
+    // Days under weeks only ever reach 6
+    expect(render(2 * 7 * DAY + 3 * DAY, { format: 'weeks' })).toBe('02:3:00:00:00');
+    expect(render(100 * HOUR + 30 * SECOND, { format: 'hours' })).toBe('100:00:30');
+  });
+
+  it('adds a tenths digit', () => {
+    expect(render(SECOND + 950, { tenths: true })).toBe('00:00:00:01:9');
+  });
+
+  it('blanks leading zeros but keeps the last digit', () => {
+    expect(render(5 * DAY, { blankLeadingZeros: true })).toBe(' 5:00:00:00');
+    expect(render(0, { blankLeadingZeros: true })).toBe(' 0:00:00:00');
+  });
+
+  it('shows dashes while loading or for a bad value', () => {
+    expect(render(null)).toBe('--:--:--:--');
+    expect(render(Number.NaN)).toBe('--:--:--:--');
+  });
+
+  it('treats a negative duration as zero', () => {
+    expect(render(-5 * SECOND)).toBe('00:00:00:00');
+  });
+});
@@ -0,0 +1,158 @@
+import { ClockDisplay, ClockFormat, ClockUnit, LocaleId } from '../types';
+
+// Shared by the SVG Clock and the canvas poster export so both draw the
+// exact same digits.
+
+// 7-segment paths for a 100x160 viewBox
+export const SEGMENT_PATHS = {
+  a: "M 22,10 L 78,10 L 68,26 L 32,26 Z",         // Top
+  b: "M 80,12 L 80,76 L 64,66 L 64,28 Z",         // Top Right
+  c: "M 80,84 L 80,148 L 64,132 L 64,94 Z",       // Bottom Right
+  d: "M 22,150 L 78,150 L 68,134 L 32,134 Z",     // Bottom
+  e: "M 20,84 L 20,148 L 36,132 L 36,94 Z",       // Bottom Left
+  f: "M 20,12 L 20,76 L 36,66 L 36,28 Z",         // Top Left
+  g: "M 22,80 L 32,70 L 68,70 L 78,80 L 68,90 L 32,90 Z" // Middle
+};
+
+export const DIGIT_SEGMENTS: Record<number, string[]> = {
+  0: ['a', 'b', 'c', 'd', 'e', 'f'],
+  1: ['b', 'c'],
+  2: ['a', 'b', 'd', 'e', 'g'],
+  3: ['a', 'b', 'c', 'd', 'g'],
+  4: ['b', 'c', 'f', 'g'],
+  5: ['a', 'c', 'd', 'f', 'g'],
+  6: ['a', 'c', 'd', 'e', 'f', 'g'],
+  7: ['a', 'b', 'c'],
+  8: ['a', 'b', 'c', 'd', 'e', 'f', 'g'],
+  9: ['a', 'b', 'c', 'd', 'f', 'g'],
+};
+
+// Non-digit glyphs: dark for suppressed leading zeros, a bar for "--:--"
+export type SegmentGlyph = number | 'blank' | 'dash';
+
+const SYMBOL_SEGMENTS: Record<'blank' | 'dash', string[]> = {
+  blank: [],
+  dash: ['g'],
+};
+
+export const glyphSegments = (glyph: SegmentGlyph): string[] =>
+  typeof glyph === 'number' ? DIGIT_SEGMENTS[glyph] || [] : SYMBOL_SEGMENTS[glyph];
+
+export const DIGIT_VIEWBOX = { width: 100, height: 160 };
+
+// Separator dots for a 40x160 viewBox
+export const SEPARATOR_VIEWBOX = { width: 40, height: 160 };
+export const SEPARATOR_DOTS = [
+  { x: 12, y: 50, size: 16 },
+  { x: 12, y: 100, size: 16 },
+];
+
+// A decimal point rather than a colon ahead of the tenths digit
+export const DECIMAL_POINT_DOTS = [
+  { x: 12, y: 134, size: 16 },
+];
+
+export const separatorDots = (before: ClockUnit) => (before === 'tenths' ? DECIMAL_POINT_DOTS : SEPARATOR_DOTS);
+
+export const DEFAULT_CLOCK_DISPLAY: ClockDisplay = {
+  format: 'days',
+  tenths: false,
+  countUp: false,
+  blankLeadingZeros: false,
+};
+
+export const CLOCK_FORMATS: ClockFormat[] = ['days', 'hours', 'weeks'];
+
+const FORMAT_UNITS: Record<ClockFormat, ClockUnit[]> = {
+  days: ['days', 'hours', 'minutes', 'seconds'],
+  hours: ['hours', 'minutes', 'seconds'],
+  weeks: ['weeks', 'days', 'hours', 'minutes', 'seconds'],
+};
+
+const UNIT_MS: Record<ClockUnit, number> = {
+  weeks: 7 * 24 * 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  hours: 60 * 60 * 1000,
+  minutes: 60 * 1000,
+  seconds: 1000,
+  tenths: 100,
+};
+
+// The first group widens as needed (100+ days, 1000+ total hours) but never
+// shows fewer digits than this
+const MIN_LEADING_DIGITS = 2;
+
+export interface ClockGroup {
+  unit: ClockUnit;
+  glyphs: SegmentGlyph[];
+}
+
+// What the clock reads at `now`: time left until the target, or with
+// countUp, time since it once it has passed
+export const clockMilliseconds = (targetDate: Date, now: Date, countUp = false): number => {
+  const difference = +targetDate - +now;
+  if (difference > 0) return difference;
+  return countUp ? -difference : 0;
+};
+
+// Split a duration into the digit groups the clock draws. Groups after the
+// first are as wide as their largest value (days under weeks: one digit).
+// Pass null (or NaN) for the "--:--" loading state.
+export const clockGroups = (ms: number | null, display: ClockDisplay): ClockGroup[] => {
+  const units = display.tenths ? [...FORMAT_UNITS[display.format], 'tenths' as const] : FORMAT_UNITS[display.format];
+  const loading = ms === null || !Number.isFinite(ms);
+  let rest = loading ? 0 : Math.max(0, ms);
+
+  return units.map((unit, index) => {
+    const width = index === 0
+      ? MIN_LEADING_DIGITS
+      : String(UNIT_MS[units[index - 1]] / UNIT_MS[unit] - 1).length;
+    if (loading) return { unit, glyphs: Array<SegmentGlyph>(width).fill('dash') };
+
+    const value = Math.floor(rest / UNIT_MS[unit]);
+    rest -= value * UNIT_MS[unit];
+    const glyphs: SegmentGlyph[] = value.toString().padStart(width, '0').split('').map(Number);
+    if (index === 0 && display.blankLeadingZeros) {
+      // Keep the last digit lit so zero still reads as 0
+      for (let i = 0; i < glyphs.length - 1 && glyphs[i] === 0; i++) glyphs[i] = 'blank';
+    }
+    return { unit, glyphs };
+  });
+};
+
+// How often the spoken summary may change: coarse while the target is far
+// off, finer as it nears, so screen readers aren't flooded every second
+const SUMMARY_STEPS = [
+  { above: UNIT_MS.days, step: UNIT_MS.hours },
+  { above: UNIT_MS.hours, step: 15 * UNIT_MS.minutes },
+  { above: 10 * UNIT_MS.minutes, step: 5 * UNIT_MS.minutes },
+  { above: UNIT_MS.minutes, step: UNIT_MS.minutes },
+  { above: 0, step: 10 * UNIT_MS.seconds },
+];
+
+const SPOKEN_UNITS: Record<Exclude<ClockUnit, 'tenths'>, string> = {
+  weeks: 'week',
+  days: 'day',
+  hours: 'hour',
+  minutes: 'minute',
+  seconds: 'second',
+};
+
+const spokenUnit = (unit: Exclude<ClockUnit, 'tenths'>, value: number, locale: LocaleId) =>
+  new Intl.NumberFormat(locale, { style: 'unit', unit: SPOKEN_UNITS[unit], unitDisplay: 'long' }).format(value);
+
+// The clock as words for screen readers, e.g. "5 days and 4 hours", in the
+// display format's units. Rounded up to the current step, so the text (and
+// any live-region announcement) only changes every so often.
+export const clockSummary = (ms: number, format: ClockFormat, locale: LocaleId): string => {
+  const step = SUMMARY_STEPS.find(({ above }) => ms > above)?.step ?? SUMMARY_STEPS[SUMMARY_STEPS.length - 1].step;
+  let rest = Math.ceil(Math.max(0, ms) / step) * step;
+
+  const parts = FORMAT_UNITS[format].flatMap(unit => {
+    const value = Math.floor(rest / UNIT_MS[unit]);
+    rest -= value * UNIT_MS[unit];
+    return value > 0 && unit !== 'tenths' ? [spokenUnit(unit, value, locale)] : [];
+  });
+  if (parts.length === 0) parts.push(spokenUnit('seconds', 0, locale));
+  return new Intl.ListFormat(locale, { style: 'long', type: 'conjunction' }).format(parts);
+};
@@ -0,0 +1,9 @@
+import { COUNTDOWN_ELEMENT, defineCountdownElement } from './components/countdownElement';
+
+// Iframe route: /embed.html?target=christmasDay&theme=24&size=small.
+// Query parameters become the element's attributes as they are.
+defineCountdownElement();
+
+const element = document.createElement(COUNTDOWN_ELEMENT);
+new URLSearchParams(window.location.search).forEach((value, name) => element.setAttribute(name, value));
+document.body.append(element);
@@ -0,0 +1,374 @@
+import { GenerationErrorKind, LocaleDefinition, UploadErrorKind } from '../types';
+
+const ar: LocaleDefinition = {
+  name: 'العربية',
+  dir: 'rtl',
+  promptLanguage: 'Arabic',
+  messages: {
+    language: 'اللغة',
+    clock: {
+      weeks: 'أسابيع',
+      days: 'أيام',
+      hours: 'ساعات',
+      minutes: 'دقائق',
+      seconds: 'ثوانٍ',
+      tenths: '1/10',
+    },
+    clockDisplay: {
+      formats: {
+        days: 'أيام : ساعات',
+        hours: 'مجموع الساعات',
+        weeks: 'أسابيع : أيام',
+      },
+      tenths: 'أعشار الثانية',
+      countUp: 'العدّ بعد الموعد',
+      blankLeadingZeros: 'إخفاء الأصفار البادئة',
+    },
+    a11y: {
+      remaining: 'الوقت المتبقي: {time}',
+      elapsed: 'مضى على الموعد: {time}',
+      loading: 'جارٍ تحميل العدّ التنازلي',
+      themeToggle: 'السمة: {current}. التبديل إلى {next}',
+      uploadZone: 'اختر صورة لرفعها',
+    },
+    presets: {
+      christmasEve: 'ليلة عيد الميلاد',
+      christmasDay: 'يوم عيد الميلاد',
+      newYear: 'رأس السنة',
+      custom: 'مخصص',
+    },
+    posterSizes: {
+      story: 'قصة 9:16',
+      square: 'مربع 1:1',
+      wide: 'عريض 16:9',
+    },
+    upload: {
+      formats: 'الصيغ: {types} // الحجم الأقصى: {size} ميغابايت',
+      roster: '{count} / {max} // الحد الأدنى {min}',
+      on: 'تشغيل',
+      off: 'إيقاف',
+    },
+    controls: {
+      close: 'إغلاق',
+      cancel: 'إلغاء',
+      dismiss: 'تجاهل',
+      open: 'فتح',
+      download: 'تنزيل',
+      delete: 'حذف',
+      remove: 'إزالة',
+      moveEarlier: 'نقل إلى الأمام',
+      moveLater: 'نقل إلى الخلف',
+      share: 'مشاركة',
+      newProtocol: 'بروتوكول جديد',
+      mute: 'كتم الصوت',
+      unmute: 'إلغاء الكتم',
+      volume: 'مستوى الصوت',
+      switchCamera: 'تبديل الكاميرا',
+      closeCamera: 'إغلاق الكاميرا',
+      zoom: 'تكبير',
+    },
+    images: {
+      preview: 'معاينة',
+      result: 'نتيجة البروتوكول',
+      source: 'الصورة الأصلية',
+      captured: 'الصورة الملتقطة',
+      cropSource: 'صورة للقص',
+      surveillance: 'كاميرا المراقبة',
+      closeUp: 'لقطة مقرّبة',
+      subject: 'الشخص {number}',
+      variant: 'النسخة {label}',
+    },
+    export: {
+      clip: 'مقطع العد التنازلي (10 ث)',
+    },
+    share: {
+      copied: 'تم نسخ الصورة إلى الحافظة!',
+      unsupported: 'المشاركة غير مدعومة على هذا الجهاز. يُرجى استخدام زر التنزيل.',
+    },
+    adjustments: {
+      undo: 'تراجع',
+      redo: 'إعادة',
+      compare: 'المقارنة بالنسخة السابقة',
+      previous: 'السابقة',
+      current: 'الحالية',
+      original: 'الأصلية',
+      version: 'النسخة {number}',
+    },
+    history: {
+      confirmClear: '{action}؟ سيتم حذف كل الملصقات المحفوظة على هذا الجهاز.',
+      failed: 'تعذّر تحديث الملصقات المحفوظة على هذا الجهاز. يُرجى المحاولة مجددًا.',
+    },
+    kiosk: {
+      start: 'المس للبدء',
+      handoffTitle: 'خذه معك',
+      handoffHint: 'امسح الرمز بكاميرا هاتفك لتنزيل ملصقك.',
+      handoffExpires: 'تنتهي صلاحية الرابط خلال {minutes} دقيقة.',
+      handoffFailed: 'النقل إلى الهاتف غير متاح حاليًا.',
+      handoffOffer: 'احصل على رمز QR لتنزيل ملصقك على هاتفك.',
+      handoffAction: 'أرسله إلى هاتفي',
+      handoffPageTitle: 'ملصق البروتوكول الخاص بك',
+      handoffImage: 'ملصقك',
+      handoffDownload: 'تنزيل',
+      handoffExpired: 'انتهت صلاحية رابط هذا الملصق.',
+    },
+    privacy: {
+      intro: 'يحوّل هذا التطبيق صورة وجهك إلى ملصق. لا تتابع إلا إذا كنت موافقًا على استخدام صورتك بهذه الطريقة، ووافق كل من يظهر فيها أيضًا.',
+      stripped: 'تُزال بيانات الموقع والكاميرا من الصور قبل إرسالها إلى أي مكان.',
+      history: 'تُحفظ الملصقات المكتملة ونسخة صغيرة من صورتك في سجل المتصفح على هذا الجهاز إلى أن تحذفها أو تسحب موافقتك.',
+      sharedDevice: 'هذا جهاز مشترك. لا يُحفظ أي شيء هنا، وتُمسح صورك وملصقاتك بعد {duration} من عدم النشاط.',
+      handoff: 'إذا أرسلت ملصقك إلى هاتفك، فسيُحفظ على خادم هذا الكشك لمدة {duration} حتى تتمكن من تنزيله، ثم يُحذف. وعند البدء من جديد يُحذف فورًا.',
+      providers: {
+        server: 'تُرسل الصور عبر خادمنا إلى Google Gemini لإنشاء الملصق. لا يحتفظ خادمنا بها، وتعالجها Google وفق شروط واجهة Gemini البرمجية.',
+        mock: 'تُعالج الصور على هذا الجهاز ولا تغادره أبدًا.',
+      },
+    },
+  },
+  themes: {
+    '24': {
+      name: 'وضع 24',
+      copy: {
+        status: 'اتصال_آمن: تم',
+        countdownHeading: 'الوقت المتبقي حتى الهدف',
+        panelBadge: 'مصدر معلومات الهدف',
+        uploadTitle: 'ارفع صورة الهدف',
+        parametersHeading: 'معايير البروتوكول',
+        parameters: [
+          'إعادة بناء هوية الهدف كعميل في وحدة مكافحة الإرهاب',
+          'تطبيق مرشحات أجواء الموسم الأول (أزرق/نوار)',
+          'مزامنة مؤقت العد التنازلي لعيد الميلاد',
+        ],
+        action: 'تفعيل البروتوكول',
+        processing: 'جارٍ تحليل المعلومات...',
+        abort: 'إلغاء المهمة',
+        variantCount: 'زوايا المراقبة',
+        gallery: 'ورقة الصور // اختر البث الرئيسي',
+        queued: 'بانتظار الاتصال',
+        history: 'ملفات القضايا',
+        historyEmpty: 'لا توجد ملفات قضايا مسجّلة.',
+        clearHistory: 'إتلاف كل الملفات',
+        targetLabel: 'الهدف',
+        layout: 'تخطيط البث',
+        overlayHeading: 'الوقت المتبقي',
+        tagline: 'الأحداث التالية تجري بين الآن ويوم عيد الميلاد.',
+      },
+      overlay: {
+        feedTag: 'بث مباشر',
+        feedLocation: 'CAM_2A // القطاع 4',
+        camLabels: ['CAM_01 // القطاع 4', 'CAM_02 // القطاع 7', 'CAM_03 // القطاع 2', 'CAM_04 // القطاع 9'],
+      },
+      celebration: {
+        title: 'اكتمل البروتوكول',
+        subtitle: 'تم بلوغ الهدف. عيد الميلاد في أمان.',
+        dismiss: 'انسحاب',
+      },
+      camera: {
+        open: 'التقاط مباشر',
+        capture: 'رصد الهدف',
+        retake: 'إعادة الرصد',
+        confirm: 'تأكيد الهدف',
+        unavailable: 'بث الكاميرا غير متاح. تحقّق من الأذونات أو ارفع الصورة بدلًا من ذلك.',
+      },
+      privacy: {
+        title: 'مطلوب تصريح أمني',
+        accept: 'منح التصريح',
+        decline: 'انسحاب',
+        withdraw: 'سحب التصريح',
+      },
+      crop: {
+        adjust: 'ضبط الإطار',
+        apply: 'تثبيت الهدف',
+        rotateLeft: 'تدوير لليسار',
+        rotateRight: 'تدوير لليمين',
+        reset: 'إعادة الضبط',
+      },
+      share: {
+        title: 'بروتوكول 24 لعيد الميلاد',
+        text: 'الأحداث التالية تجري بين الآن ويوم عيد الميلاد.',
+      },
+      adjustments: {
+        title: 'تعديلات ميدانية',
+        placeholder: 'صف التعديل، مثلاً "اجعلها ليلاً"',
+        apply: 'إرسال',
+        working: 'جارٍ تطبيق التعديل...',
+      },
+      errors: {
+        title: 'فشل الإرسال',
+        retry: 'إعادة الإرسال',
+        messages: {
+          [GenerationErrorKind.SAFETY_BLOCK]: 'تم تفعيل بروتوكول الأمان: رصدت مرشحات السلامة محتوى الصورة. جرّب صورة أخرى.',
+          [GenerationErrorKind.MODEL_REFUSAL]: 'رُفض الطلب: رفض النموذج التعليمات. جرّب صورة أوضح للوجه.',
+          [GenerationErrorKind.AUTH]: 'تم رفض الوصول: مفتاح API غير صالح أو منتهي الصلاحية.',
+          [GenerationErrorKind.OVERLOADED]: 'ازدحام في الشبكة: خوادم الوحدة مثقلة. يُرجى إعادة المحاولة.',
+          [GenerationErrorKind.BAD_INPUT]: 'بيانات تالفة: صيغة الصورة غير صالحة أو رُفضت التعليمات.',
+          [GenerationErrorKind.NETWORK]: 'انقطع الاتصال: تعذّر الوصول إلى خوادم الوحدة. تحقّق من اتصالك.',
+          [GenerationErrorKind.TIMEOUT]: 'نفد الوقت: لم تستجب خوادم الوحدة في الوقت المحدد. يُرجى إعادة المحاولة.',
+          [GenerationErrorKind.UNKNOWN]: 'عطل في النظام: حدث خطأ غير معروف أثناء الإنشاء.',
+        },
+        upload: {
+          [UploadErrorKind.UNSUPPORTED_TYPE]: 'معلومات غير معروفة: استخدم صورة بصيغة JPG أو PNG أو WebP أو HEIC.',
+          [UploadErrorKind.TOO_LARGE]: 'الحمولة كبيرة جدًا: يجب ألا يتجاوز حجم الصورة 5 ميغابايت.',
+          [UploadErrorKind.HEIC_UNSUPPORTED]: 'صيغة مشفّرة: لا يستطيع هذا المتصفح قراءة HEIC. صدّر الصورة بصيغة JPG وحاول مجددًا.',
+          [UploadErrorKind.DECODE_FAILED]: 'معلومات تالفة: تعذّرت قراءة الصورة. جرّب ملفًا آخر.',
+        },
+        export: 'فشل التصدير: تعذّر إنشاء الملصق. يُرجى إعادة المحاولة.',
+      },
+      group: {
+        name: 'فريق الوحدة الميداني',
+        addSubject: 'إضافة عميل',
+      },
+      briefing: {
+        heading: 'إيجاز المهمة',
+        fields: {
+          setting: {
+            label: 'الموقع',
+            options: {
+              ctu: 'مقر الوحدة',
+              rooftop: 'سطح في لوس أنجلوس',
+              interrogation: 'غرفة الاستجواب',
+            },
+          },
+          clock: { label: 'قراءة الساعة' },
+          outfit: {
+            label: 'الزي',
+            options: {
+              tactical: 'تكتيكي',
+              suit: 'بدلة وربطة عنق',
+              field: 'سترة ميدانية',
+            },
+          },
+          mood: {
+            label: 'الحالة',
+            options: {
+              intense: 'متأهب',
+              defiant: 'متحدٍّ',
+              exhausted: 'الساعة 23',
+            },
+          },
+        },
+      },
+      offline: {
+        stampText: '23:59:59',
+      },
+    },
+    ELF: {
+      name: 'وضع القزم',
+      copy: {
+        status: 'ملاحة_الزلاجة: متصلة',
+        countdownHeading: 'الوقت حتى وصول بابا نويل...',
+        panelBadge: 'مرشّح لقائمة الطيبين',
+        uploadTitle: 'ارفع صورتك',
+        parametersHeading: 'معايير الورشة',
+        parameters: [
+          'التحوّل إلى بادي القزم',
+          "تطبيق مرشح 'القطب الشمالي' السحري",
+          'مزامنة العد التنازلي مع وصول بابا نويل',
+        ],
+        action: 'انشر البهجة',
+        processing: 'نصنع الألعاب...',
+        abort: 'إلغاء التوصيل',
+        variantCount: 'عدد الصور',
+        gallery: 'ألبوم الصور: اختر المفضلة',
+        queued: 'في الانتظار',
+        history: 'ألبوم بابا نويل',
+        historyEmpty: 'لا توجد صور بعد. انشر بعض البهجة!',
+        clearHistory: 'إفراغ الألبوم',
+        targetLabel: 'العد التنازلي حتى',
+        layout: 'تخطيط الكاميرات',
+        overlayHeading: 'العد التنازلي لعيد الميلاد',
+        tagline: 'أفضل طريقة لنشر بهجة العيد هي الغناء بصوت عالٍ ليسمعه الجميع.',
+      },
+      overlay: {
+        feedTag: 'كاميرا بابا نويل',
+        feedLocation: 'الورشة // القطاع 7',
+        camLabels: ['كاميرا بابا نويل // القطاع 7', 'كاميرا المدخنة // القطاع 2', 'كاميرا الزلاجة // القطاع 5', 'كاميرا الورشة // القطاع 1'],
+      },
+      celebration: {
+        title: 'عيد ميلاد مجيد!',
+        subtitle: 'وصل بابا نويل. الجميع في قائمة الطيبين!',
+        dismiss: 'العودة إلى الورشة',
+      },
+      camera: {
+        open: 'التقط صورة',
+        capture: 'ابتسم!',
+        retake: 'أعد المحاولة',
+        confirm: 'استخدم هذه',
+        unavailable: 'تعذّر فتح الكاميرا. تحقّق من الأذونات أو ارفع صورة بدلًا من ذلك.',
+      },
+      privacy: {
+        title: 'قبل أن نبدأ',
+        accept: 'موافق!',
+        decline: 'ليس الآن',
+        withdraw: 'سحب الموافقة',
+      },
+      crop: {
+        adjust: 'ضبط الصورة',
+        apply: 'تبدو رائعة!',
+        rotateLeft: 'تدوير لليسار',
+        rotateRight: 'تدوير لليمين',
+        reset: 'البدء من جديد',
+      },
+      share: {
+        title: 'بروتوكول القطب الشمالي',
+        text: 'صنعت هذا باستخدام بروتوكول القطب الشمالي!',
+      },
+      adjustments: {
+        title: 'لمسات الورشة',
+        placeholder: 'ماذا يغيّر الأقزام؟ مثلاً "أضف ثلجاً على الكتفين"',
+        apply: 'أرسلها إلى الأقزام',
+        working: 'الأقزام يعملون...',
+      },
+      errors: {
+        title: 'مشكلة في الورشة',
+        retry: 'حاول مجددًا',
+        messages: {
+          [GenerationErrorKind.SAFETY_BLOCK]: 'لا يستطيع مساعدو بابا نويل استخدام هذه الصورة. جرّب صورة أخرى.',
+          [GenerationErrorKind.MODEL_REFUSAL]: 'احتار الأقزام في هذه الصورة. جرّب صورة أوضح لوجهك.',
+          [GenerationErrorKind.AUTH]: 'باب الورشة مقفل: مفتاح API غير صالح أو منتهي الصلاحية.',
+          [GenerationErrorKind.OVERLOADED]: 'الورشة مزدحمة بطلبات الألعاب! يُرجى المحاولة مجددًا.',
+          [GenerationErrorKind.BAD_INPUT]: 'علقت الصورة في زينة العيد. يُرجى رفع صورة JPG أو PNG.',
+          [GenerationErrorKind.NETWORK]: 'فقدت الزلاجة الإشارة. تحقّق من اتصالك وحاول مجددًا.',
+          [GenerationErrorKind.TIMEOUT]: 'تأخرت حيوانات الرنّة في العودة. يُرجى المحاولة مجددًا.',
+          [GenerationErrorKind.UNKNOWN]: 'حدث خطأ ما في القطب الشمالي. يُرجى المحاولة مجددًا.',
+        },
+        upload: {
+          [UploadErrorKind.UNSUPPORTED_TYPE]: 'هذه ليست صورة! جرّب JPG أو PNG أو WebP أو HEIC.',
+          [UploadErrorKind.TOO_LARGE]: 'الصورة أكبر من أن تتسع لها الزلاجة. لا تتجاوز 5 ميغابايت.',
+          [UploadErrorKind.HEIC_UNSUPPORTED]: 'لا يستطيع هذا المتصفح فتح صور HEIC. احفظها بصيغة JPG وحاول مجددًا.',
+          [UploadErrorKind.DECODE_FAILED]: 'تعذّر فتح هذه الصورة. جرّب صورة أخرى!',
+        },
+        export: 'لم يتمكن الأقزام من تغليف ملصقك. يُرجى المحاولة مجددًا.',
+      },
+      group: {
+        name: 'طاقم ورشة بابا نويل',
+        addSubject: 'إضافة قزم',
+      },
+      briefing: {
+        heading: 'طلب الورشة',
+        fields: {
+          scene: {
+            label: 'المشهد',
+            options: {
+              workshop: 'ورشة القطب الشمالي',
+              gimbels: 'متجر غيمبلز',
+              centralPark: 'سنترال بارك',
+            },
+          },
+          props: {
+            label: 'الأغراض',
+            options: {
+              candyCanes: 'عصي الحلوى',
+              snowball: 'كرة ثلج',
+              etchASketch: 'لوح الرسم السحري',
+              syrupSpaghetti: 'سباغيتي بالشراب',
+            },
+          },
+        },
+      },
+      offline: {
+        stampText: '25 ديسمبر',
+      },
+    },
+  },
+};
+
+export default ar;
@@ -0,0 +1,130 @@
+import { LocaleDefinition } from '../types';
+
+// Theme copy for English lives in the theme definitions themselves
+const en: LocaleDefinition = {
+  name: 'English',
+  dir: 'ltr',
+  promptLanguage: 'English',
+  messages: {
+    language: 'Language',
+    clock: {
+      weeks: 'Weeks',
+      days: 'Days',
+      hours: 'Hours',
+      minutes: 'Min',
+      seconds: 'Sec',
+      tenths: '1/10',
+    },
+    clockDisplay: {
+      formats: {
+        days: 'Days : Hours',
+        hours: 'Total Hours',
+        weeks: 'Weeks : Days',
+      },
+      tenths: 'Tenths',
+      countUp: 'Count Up After',
+      blankLeadingZeros: 'Hide Leading Zeros',
+    },
+    a11y: {
+      remaining: '{time} remaining',
+      elapsed: '{time} since the target',
+      loading: 'Countdown loading',
+      themeToggle: 'Theme: {current}. Switch to {next}',
+      uploadZone: 'Choose a photo to upload',
+    },
+    presets: {
+      christmasEve: 'Christmas Eve',
+      christmasDay: 'Christmas Day',
+      newYear: 'New Year',
+      custom: 'Custom',
+    },
+    posterSizes: {
+      story: 'Story 9:16',
+      square: 'Square 1:1',
+      wide: 'Wide 16:9',
+    },
+    upload: {
+      formats: 'Format: {types} // Max Size: {size}MB',
+      roster: '{count} / {max} // Min {min}',
+      on: 'On',
+      off: 'Off',
+    },
+    controls: {
+      close: 'Close',
+      cancel: 'Cancel',
+      dismiss: 'Dismiss',
+      open: 'Open',
+      download: 'Download',
+      delete: 'Delete',
+      remove: 'Remove',
+      moveEarlier: 'Move earlier',
+      moveLater: 'Move later',
+      share: 'Share',
+      newProtocol: 'New Protocol',
+      mute: 'Mute',
+      unmute: 'Unmute',
+      volume: 'Volume',
+      switchCamera: 'Switch camera',
+      closeCamera: 'Close camera',
+      zoom: 'Zoom',
+    },
+    images: {
+      preview: 'Preview',
+      result: 'Protocol Result',
+      source: 'Source',
+      captured: 'Captured',
+      cropSource: 'Crop source',
+      surveillance: 'Surveillance Feed',
+      closeUp: 'Close-up Feed',
+      subject: 'Subject {number}',
+      variant: 'Variant {label}',
+    },
+    export: {
+      clip: 'Countdown Clip (10s)',
+    },
+    share: {
+      copied: 'Image copied to clipboard!',
+      unsupported: 'Sharing is not supported on this device. Please use the download button.',
+    },
+    adjustments: {
+      undo: 'Undo',
+      redo: 'Redo',
+      compare: 'Compare with previous',
+      previous: 'Previous',
+      current: 'Current',
+      original: 'Original',
+      version: 'Version {number}',
+    },
+    history: {
+      confirmClear: '{action}? Every saved poster on this device will be deleted.',
+      failed: "Couldn't update the saved posters on this device. Please try again.",
+    },
+    kiosk: {
+      start: 'Touch to begin',
+      handoffTitle: 'Take it with you',
+      handoffHint: 'Scan with your phone camera to download your poster.',
+      handoffExpires: 'Link expires in {minutes} minutes.',
+      handoffFailed: 'Phone hand-off is unavailable right now.',
+      handoffOffer: 'Get a QR code to download your poster on your phone.',
+      handoffAction: 'Send to my phone',
+      handoffPageTitle: 'Your Protocol Poster',
+      handoffImage: 'Your poster',
+      handoffDownload: 'Download',
+      handoffExpired: 'This poster link has expired.',
+    },
+    privacy: {
+      intro: "This app turns a photo of your face into a poster. Only continue if you're happy for your photo to be used this way, and anyone else pictured has agreed too.",
+      stripped: 'Location and camera details are removed from photos before they are sent anywhere.',
+      history: "Finished posters and a small copy of your photo are kept in your browser's history on this device until you delete them or withdraw consent.",
+      sharedDevice: 'This is a shared device. Nothing is saved here, and your photos and posters are wiped after {duration} of inactivity.',
+      handoff: "If you send your poster to your phone, it is kept on this kiosk's server for {duration} so you can download it, then deleted. Starting over deletes it straight away.",
+      providers: {
+        server: 'Photos are sent through our server to Google Gemini to create the poster. Our server does not store them; Google processes them under its Gemini API terms.',
+        mock: 'Photos are processed on this device and never leave it.',
+      },
+    },
+  },
+  themes: null,
+};
+
+export default en;
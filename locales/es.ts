@@ -0,0 +1,374 @@
+import { GenerationErrorKind, LocaleDefinition, UploadErrorKind } from '../types';
+
+const es: LocaleDefinition = {
+  name: 'Español',
+  dir: 'ltr',
+  promptLanguage: 'Spanish',
+  messages: {
+    language: 'Idioma',
+    clock: {
+      weeks: 'Semanas',
+      days: 'Días',
+      hours: 'Horas',
+      minutes: 'Min',
+      seconds: 'Seg',
+      tenths: '1/10',
+    },
+    clockDisplay: {
+      formats: {
+        days: 'Días : Horas',
+        hours: 'Horas Totales',
+        weeks: 'Semanas : Días',
+      },
+      tenths: 'Décimas',
+      countUp: 'Contar Después',
+      blankLeadingZeros: 'Ocultar Ceros',
+    },
+    a11y: {
+      remaining: 'Quedan {time}',
+      elapsed: '{time} desde el objetivo',
+      loading: 'Cargando la cuenta atrás',
+      themeToggle: 'Tema: {current}. Cambiar a {next}',
+      uploadZone: 'Elegir una foto para subir',
+    },
+    presets: {
+      christmasEve: 'Nochebuena',
+      christmasDay: 'Navidad',
+      newYear: 'Año Nuevo',
+      custom: 'Personalizado',
+    },
+    posterSizes: {
+      story: 'Historia 9:16',
+      square: 'Cuadrado 1:1',
+      wide: 'Panorámico 16:9',
+    },
+    upload: {
+      formats: 'Formato: {types} // Tamaño máx.: {size} MB',
+      roster: '{count} / {max} // Mín. {min}',
+      on: 'Sí',
+      off: 'No',
+    },
+    controls: {
+      close: 'Cerrar',
+      cancel: 'Cancelar',
+      dismiss: 'Descartar',
+      open: 'Abrir',
+      download: 'Descargar',
+      delete: 'Eliminar',
+      remove: 'Quitar',
+      moveEarlier: 'Mover antes',
+      moveLater: 'Mover después',
+      share: 'Compartir',
+      newProtocol: 'Nuevo protocolo',
+      mute: 'Silenciar',
+      unmute: 'Activar sonido',
+      volume: 'Volumen',
+      switchCamera: 'Cambiar cámara',
+      closeCamera: 'Cerrar cámara',
+      zoom: 'Zoom',
+    },
+    images: {
+      preview: 'Vista previa',
+      result: 'Resultado del protocolo',
+      source: 'Original',
+      captured: 'Captura',
+      cropSource: 'Foto para recortar',
+      surveillance: 'Cámara de vigilancia',
+      closeUp: 'Primer plano',
+      subject: 'Sujeto {number}',
+      variant: 'Variante {label}',
+    },
+    export: {
+      clip: 'Clip de cuenta atrás (10 s)',
+    },
+    share: {
+      copied: '¡Imagen copiada al portapapeles!',
+      unsupported: 'Este dispositivo no permite compartir. Usa el botón de descarga.',
+    },
+    adjustments: {
+      undo: 'Deshacer',
+      redo: 'Rehacer',
+      compare: 'Comparar con la anterior',
+      previous: 'Anterior',
+      current: 'Actual',
+      original: 'Original',
+      version: 'Versión {number}',
+    },
+    history: {
+      confirmClear: '¿{action}? Se borrarán todos los pósters guardados en este dispositivo.',
+      failed: 'No se pudieron actualizar los pósters guardados en este dispositivo. Inténtalo de nuevo.',
+    },
+    kiosk: {
+      start: 'Toca para empezar',
+      handoffTitle: 'Llévatelo',
+      handoffHint: 'Escanea con la cámara del móvil para descargar tu póster.',
+      handoffExpires: 'El enlace caduca en {minutes} minutos.',
+      handoffFailed: 'La descarga al móvil no está disponible ahora.',
+      handoffOffer: 'Consigue un código QR para descargar tu póster en el móvil.',
+      handoffAction: 'Enviar a mi móvil',
+      handoffPageTitle: 'Tu póster del Protocolo',
+      handoffImage: 'Tu póster',
+      handoffDownload: 'Descargar',
+      handoffExpired: 'Este enlace del póster ha caducado.',
+    },
+    privacy: {
+      intro: 'Esta app convierte una foto de tu cara en un póster. Continúa solo si estás de acuerdo con que tu foto se use así y las demás personas que aparecen también lo han aceptado.',
+      stripped: 'Antes de enviar las fotos se eliminan los datos de ubicación y de la cámara.',
+      history: 'Los pósters terminados y una copia pequeña de tu foto se guardan en el historial del navegador de este dispositivo hasta que los borres o retires tu consentimiento.',
+      sharedDevice: 'Este es un dispositivo compartido. Aquí no se guarda nada, y tus fotos y pósters se borran tras {duration} de inactividad.',
+      handoff: 'Si envías tu póster al móvil, se guarda en el servidor de este quiosco durante {duration} para que puedas descargarlo y después se borra. Si empiezas de nuevo, se borra al instante.',
+      providers: {
+        server: 'Las fotos se envían a través de nuestro servidor a Google Gemini para crear el póster. Nuestro servidor no las guarda; Google las procesa según las condiciones de la API de Gemini.',
+        mock: 'Las fotos se procesan en este dispositivo y nunca salen de él.',
+      },
+    },
+  },
+  themes: {
+    '24': {
+      name: 'Modo 24',
+      copy: {
+        status: 'CONEXIÓN_SEGURA: ESTABLECIDA',
+        countdownHeading: 'Tiempo restante hasta el objetivo',
+        panelBadge: 'Fuente de inteligencia del sujeto',
+        uploadTitle: 'Subir imagen del sujeto',
+        parametersHeading: 'Parámetros del protocolo',
+        parameters: [
+          'Reconstruir la identidad del sujeto como agente de la UAT',
+          'Aplicar filtros atmosféricos de la temporada 1 (azul/noir)',
+          'Sincronizar el reloj de cuenta atrás navideño',
+        ],
+        action: 'Iniciar protocolo',
+        processing: 'Procesando inteligencia...',
+        abort: 'Abortar misión',
+        variantCount: 'Ángulos de vigilancia',
+        gallery: 'Hoja de contactos // Selecciona la señal principal',
+        queued: 'Esperando enlace',
+        history: 'Expedientes',
+        historyEmpty: 'No hay expedientes registrados.',
+        clearHistory: 'Purgar todos los expedientes',
+        targetLabel: 'Objetivo',
+        layout: 'Disposición de señales',
+        overlayHeading: 'Tiempo restante',
+        tagline: 'Los siguientes hechos ocurren entre ahora y el día de Navidad.',
+      },
+      overlay: {
+        feedTag: 'EN DIRECTO',
+        feedLocation: 'CAM_2A // SECTOR 4',
+        camLabels: ['CAM_01 // SECTOR 4', 'CAM_02 // SECTOR 7', 'CAM_03 // SECTOR 2', 'CAM_04 // SECTOR 9'],
+      },
+      celebration: {
+        title: 'Protocolo completado',
+        subtitle: 'Objetivo alcanzado. La Navidad está asegurada.',
+        dismiss: 'Retirarse',
+      },
+      camera: {
+        open: 'Captura en vivo',
+        capture: 'Fijar objetivo',
+        retake: 'Volver a fijar',
+        confirm: 'Confirmar sujeto',
+        unavailable: 'Señal de cámara no disponible. Revisa los permisos o sube la imagen.',
+      },
+      privacy: {
+        title: 'Autorización requerida',
+        accept: 'Conceder autorización',
+        decline: 'Retirarse',
+        withdraw: 'Revocar autorización',
+      },
+      crop: {
+        adjust: 'Ajustar encuadre',
+        apply: 'Fijar objetivo',
+        rotateLeft: 'Girar a la izquierda',
+        rotateRight: 'Girar a la derecha',
+        reset: 'Restablecer',
+      },
+      share: {
+        title: 'El Protocolo Navideño 24',
+        text: 'Los siguientes hechos ocurren entre ahora y el día de Navidad.',
+      },
+      adjustments: {
+        title: 'Ajustes de campo',
+        placeholder: 'Describe el ajuste, p. ej. "que sea de noche"',
+        apply: 'Transmitir',
+        working: 'Aplicando ajuste...',
+      },
+      errors: {
+        title: 'Transmisión fallida',
+        retry: 'Reintentar transmisión',
+        messages: {
+          [GenerationErrorKind.SAFETY_BLOCK]: 'Protocolo de seguridad activado: los filtros han marcado la imagen. Prueba con otra foto.',
+          [GenerationErrorKind.MODEL_REFUSAL]: 'Solicitud denegada: el modelo rechazó la petición. Prueba con una foto más clara de la cara.',
+          [GenerationErrorKind.AUTH]: 'Acceso denegado: la clave de API no es válida o ha caducado.',
+          [GenerationErrorKind.OVERLOADED]: 'Red saturada: los servidores de la UAT están sobrecargados. Vuelve a intentarlo.',
+          [GenerationErrorKind.BAD_INPUT]: 'Datos corruptos: formato de imagen no válido o petición rechazada.',
+          [GenerationErrorKind.NETWORK]: 'Enlace perdido: no se puede contactar con los servidores de la UAT. Revisa tu conexión.',
+          [GenerationErrorKind.TIMEOUT]: 'Se acabó el tiempo: los servidores de la UAT no respondieron a tiempo. Vuelve a intentarlo.',
+          [GenerationErrorKind.UNKNOWN]: 'Fallo del sistema: se produjo un error desconocido durante la generación.',
+        },
+        upload: {
+          [UploadErrorKind.UNSUPPORTED_TYPE]: 'Inteligencia no reconocida: usa una foto JPG, PNG, WebP o HEIC.',
+          [UploadErrorKind.TOO_LARGE]: 'Carga demasiado grande: las fotos deben ocupar 5 MB o menos.',
+          [UploadErrorKind.HEIC_UNSUPPORTED]: 'Formato cifrado: este navegador no puede leer HEIC. Exporta la foto como JPG y vuelve a intentarlo.',
+          [UploadErrorKind.DECODE_FAILED]: 'Inteligencia corrupta: no se pudo leer la foto. Prueba con otro archivo.',
+        },
+        export: 'Exportación fallida: no se pudo generar el póster. Vuelve a intentarlo.',
+      },
+      group: {
+        name: 'Equipo de campo de la UAT',
+        addSubject: 'Añadir agente',
+      },
+      briefing: {
+        heading: 'Informe de misión',
+        fields: {
+          setting: {
+            label: 'Ubicación',
+            options: {
+              ctu: 'Sede de la UAT',
+              rooftop: 'Azotea en L.A.',
+              interrogation: 'Sala de interrogatorios',
+            },
+          },
+          clock: { label: 'Lectura del reloj' },
+          outfit: {
+            label: 'Vestuario',
+            options: {
+              tactical: 'Táctico',
+              suit: 'Traje y corbata',
+              field: 'Chaqueta de campo',
+            },
+          },
+          mood: {
+            label: 'Actitud',
+            options: {
+              intense: 'Intensa',
+              defiant: 'Desafiante',
+              exhausted: 'Hora 23',
+            },
+          },
+        },
+      },
+      offline: {
+        stampText: '23:59:59',
+      },
+    },
+    ELF: {
+      name: 'Modo Elfo',
+      copy: {
+        status: 'Navegador_Trineo: EN LÍNEA',
+        countdownHeading: 'Tiempo hasta que llegue Papá Noel...',
+        panelBadge: 'Candidato a la Lista de Buenos',
+        uploadTitle: 'Sube tu foto',
+        parametersHeading: 'Parámetros del taller',
+        parameters: [
+          'Transformarte en Buddy el Elfo',
+          "Aplicar el filtro mágico 'Polo Norte'",
+          'Sincronizar la cuenta atrás con la llegada de Papá Noel',
+        ],
+        action: 'Repartir alegría',
+        processing: 'Fabricando juguetes...',
+        abort: 'Cancelar entrega',
+        variantCount: 'Número de retratos',
+        gallery: 'Álbum de fotos: elige tu favorita',
+        queued: 'En la cola',
+        history: 'Álbum de Papá Noel',
+        historyEmpty: 'Aún no hay retratos. ¡Reparte un poco de alegría!',
+        clearHistory: 'Vaciar álbum',
+        targetLabel: 'Cuenta atrás para',
+        layout: 'Disposición de cámaras',
+        overlayHeading: 'Cuenta atrás para Navidad',
+        tagline: 'La mejor forma de repartir alegría navideña es cantar bien alto para que todos lo oigan.',
+      },
+      overlay: {
+        feedTag: 'CÁMARA DE PAPÁ NOEL',
+        feedLocation: 'TALLER // SECTOR 7',
+        camLabels: ['CÁM. PAPÁ NOEL // SECTOR 7', 'CÁM. CHIMENEA // SECTOR 2', 'CÁM. TRINEO // SECTOR 5', 'CÁM. TALLER // SECTOR 1'],
+      },
+      celebration: {
+        title: '¡Feliz Navidad!',
+        subtitle: '¡Papá Noel ha llegado! Todos están en la Lista de Buenos.',
+        dismiss: 'Volver al taller',
+      },
+      camera: {
+        open: 'Hacer una foto',
+        capture: '¡Patata!',
+        retake: 'Repetir',
+        confirm: 'Usar esta',
+        unavailable: 'No se pudo abrir la cámara. Revisa los permisos o sube una foto.',
+      },
+      privacy: {
+        title: 'Antes de empezar',
+        accept: '¡De acuerdo!',
+        decline: 'Ahora no',
+        withdraw: 'Retirar consentimiento',
+      },
+      crop: {
+        adjust: 'Ajustar foto',
+        apply: '¡Queda genial!',
+        rotateLeft: 'Girar a la izquierda',
+        rotateRight: 'Girar a la derecha',
+        reset: 'Empezar de nuevo',
+      },
+      share: {
+        title: 'El Protocolo del Polo Norte',
+        text: '¡Lo he hecho con El Protocolo del Polo Norte!',
+      },
+      adjustments: {
+        title: 'Retoques del taller',
+        placeholder: '¿Qué deben cambiar los elfos? p. ej. "añade nieve en los hombros"',
+        apply: 'Enviar a los elfos',
+        working: 'Los elfos trabajan...',
+      },
+      errors: {
+        title: 'Percance en el taller',
+        retry: 'Intentar de nuevo',
+        messages: {
+          [GenerationErrorKind.SAFETY_BLOCK]: 'Los ayudantes de Papá Noel no pueden usar esa foto. Prueba con otra.',
+          [GenerationErrorKind.MODEL_REFUSAL]: 'Los elfos se han liado con esa foto. Prueba con una imagen más clara de tu cara.',
+          [GenerationErrorKind.AUTH]: 'La puerta del taller está cerrada: la clave de API no es válida o ha caducado.',
+          [GenerationErrorKind.OVERLOADED]: '¡El taller está desbordado de pedidos! Vuelve a intentarlo.',
+          [GenerationErrorKind.BAD_INPUT]: 'Esa foto se ha enredado en el espumillón. Sube un JPG o PNG.',
+          [GenerationErrorKind.NETWORK]: 'El trineo ha perdido la señal. Revisa tu conexión y vuelve a intentarlo.',
+          [GenerationErrorKind.TIMEOUT]: 'Los renos han tardado demasiado en volver. Vuelve a intentarlo.',
+          [GenerationErrorKind.UNKNOWN]: 'Algo ha fallado en el Polo Norte. Vuelve a intentarlo.',
+        },
+        upload: {
+          [UploadErrorKind.UNSUPPORTED_TYPE]: '¡Eso no es una foto! Prueba con un JPG, PNG, WebP o HEIC.',
+          [UploadErrorKind.TOO_LARGE]: 'Esa foto no cabe en el trineo. Que no pase de 5 MB.',
+          [UploadErrorKind.HEIC_UNSUPPORTED]: 'Este navegador no puede abrir fotos HEIC. Guárdala como JPG y vuelve a intentarlo.',
+          [UploadErrorKind.DECODE_FAILED]: 'No hemos podido abrir esa foto. ¡Prueba con otra!',
+        },
+        export: 'Los elfos no han podido envolver tu póster. Vuelve a intentarlo.',
+      },
+      group: {
+        name: 'Equipo del taller de Papá Noel',
+        addSubject: 'Añadir elfo',
+      },
+      briefing: {
+        heading: 'Pedido al taller',
+        fields: {
+          scene: {
+            label: 'Escenario',
+            options: {
+              workshop: 'Taller del Polo Norte',
+              gimbels: 'Gimbels',
+              centralPark: 'Central Park',
+            },
+          },
+          props: {
+            label: 'Accesorios',
+            options: {
+              candyCanes: 'Bastones de caramelo',
+              snowball: 'Bola de nieve',
+              etchASketch: 'Telesketch',
+              syrupSpaghetti: 'Espaguetis con sirope',
+            },
+          },
+        },
+      },
+      offline: {
+        stampText: '25 DIC',
+      },
+    },
+  },
+};
+
+export default es;
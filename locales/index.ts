@@ -0,0 +1,34 @@
+import { LocaleDefinition } from '../types';
+import en from './en';
+import es from './es';
+import ar from './ar';
+
+// Registry of every UI language. Adding one means adding its catalogue file
+// and an entry here (plus a slot in LOCALE_ORDER).
+export const LOCALES = {
+  en,
+  es,
+  ar,
+} satisfies Record<string, LocaleDefinition>;
+
+export type LocaleId = keyof typeof LOCALES;
+
+// Switcher order
+export const LOCALE_ORDER: LocaleId[] = ['en', 'es', 'ar'];
+
+export const DEFAULT_LOCALE: LocaleId = 'en';
+
+export const isLocaleId = (value: unknown): value is LocaleId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+export const getLocale = (id: LocaleId): LocaleDefinition => LOCALES[id] ?? LOCALES[DEFAULT_LOCALE];
+
+// First supported language in a preference list such as navigator.languages,
+// matched on the primary subtag ("es-MX" -> "es")
+export const matchLocale = (languages: readonly string[]): LocaleId | null => {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0];
+    if (isLocaleId(primary)) return primary;
+  }
+  return null;
+};
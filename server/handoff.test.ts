@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createHandoffStore, handoffPage } from './handoff';
+
+const poster = (text: string) => Buffer.from(text);
+
+describe('createHandoffStore', () => {
+  it('returns a poster by token until it expires', () => {
+    const store = createHandoffStore({ ttlMs: 15 * 60_000, maxEntries: 10 });
+    const { token, expiresAt } = store.put(poster('a'), 'image/jpeg', 'en', 1_000);
+    expect(expiresAt).toBe(1_000 + 15 * 60_000);
+    expect(store.get(token, expiresAt - 1)?.image.toString()).toBe('a');
+    expect(store.get(token, expiresAt)).toBeNull();
+  });
+
+  it('issues unguessable, URL-safe tokens', () => {
+    const store = createHandoffStore({ ttlMs: 60_000, maxEntries: 10 });
+    const tokens = [1, 2, 3].map(() => store.put(poster('a'), 'image/jpeg', 'en').token);
+    expect(new Set(tokens).size).toBe(3);
+    tokens.forEach(token => expect(token).toMatch(/^[\w-]{22}$/));
+    expect(store.get('not-a-token')).toBeNull();
+  });
+
+  it('forgets a poster as soon as it is removed', () => {
+    const store = createHandoffStore({ ttlMs: 60_000, maxEntries: 10 });
+    const { token } = store.put(poster('a'), 'image/jpeg', 'en');
+    store.remove(token);
+    expect(store.get(token)).toBeNull();
+    expect(() => store.remove(token)).not.toThrow();
+  });
+
+  it('drops the oldest posters once full', () => {
+    const store = createHandoffStore({ ttlMs: 60_000, maxEntries: 2 });
+    const first = store.put(poster('1'), 'image/jpeg', 'en', 0);
+    const second = store.put(poster('2'), 'image/jpeg', 'en', 0);
+    const third = store.put(poster('3'), 'image/jpeg', 'en', 0);
+    expect(store.get(first.token, 0)).toBeNull();
+    expect(store.get(second.token, 0)).not.toBeNull();
+    expect(store.get(third.token, 0)).not.toBeNull();
+  });
+});
+
+describe('handoffPage', () => {
+  it('escapes the image path and file name', () => {
+    const page = handoffPage('/handoff/a"b/image', '<poster>.jpg', 'en');
+    expect(page).toContain('src="/handoff/a&#34;b/image"');
+    expect(page).toContain('download="&#60;poster&#62;.jpg"');
+    expect(page).not.toContain('<poster>');
+  });
+
+  it("uses the kiosk's language and direction", () => {
+    expect(handoffPage('/handoff/x.jpg', 'p.jpg', 'en')).toContain('<html lang="en" dir="ltr">');
+    const spanish = handoffPage('/handoff/x.jpg', 'p.jpg', 'es');
+    expect(spanish).toContain('>Descargar</a>');
+    expect(spanish).toContain('alt="Tu póster"');
+    expect(handoffPage('/handoff/x.jpg', 'p.jpg', 'ar')).toContain('<html lang="ar" dir="rtl">');
+  });
+});
@@ -0,0 +1,89 @@
+import { randomBytes } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+import { LocaleId, getLocale } from '../locales';
+
+interface HandoffStoreOptions {
+  ttlMs: number;
+  // Oldest posters are dropped first once this many are waiting
+  maxEntries: number;
+}
+
+export interface HandoffEntry {
+  image: Buffer;
+  contentType: string;
+  // The kiosk's language when the guest asked, used for the pickup page
+  locale: LocaleId;
+  expiresAt: number;
+}
+
+// Kiosk posters waiting to be picked up by phone, keyed by an unguessable
+// token. In-memory, so they vanish when the server restarts.
+export const createHandoffStore = ({ ttlMs, maxEntries }: HandoffStoreOptions) => {
+  const entries = new Map<string, HandoffEntry>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [token, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(token);
+    }
+  }, Math.min(ttlMs, 60_000));
+  sweep.unref();
+
+  const put = (image: Buffer, contentType: string, locale: LocaleId, now = Date.now()): { token: string; expiresAt: number } => {
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (entries.size >= maxEntries) entries.delete(entries.keys().next().value as string);
+    const token = randomBytes(16).toString('base64url');
+    const expiresAt = now + ttlMs;
+    entries.set(token, { image, contentType, locale, expiresAt });
+    return { token, expiresAt };
+  };
+
+  const get = (token: string, now = Date.now()): HandoffEntry | null => {
+    const entry = entries.get(token);
+    if (!entry || entry.expiresAt <= now) return null;
+    return entry;
+  };
+
+  const remove = (token: string): void => {
+    entries.delete(token);
+  };
+
+  return { put, get, remove };
+};
+
+// Where phones on the venue network can reach this server. The kiosk itself
+// may be browsing via localhost, so its own origin is no use in a QR code.
+export const publicBaseUrl = (port: number): string => {
+  if (process.env.KIOSK_PUBLIC_URL) return process.env.KIOSK_PUBLIC_URL.replace(/\/$/, '');
+  for (const addresses of Object.values(networkInterfaces())) {
+    const lan = addresses?.find(address => address.family === 'IPv4' && !address.internal);
+    if (lan) return `http://${lan.address}:${port}`;
+  }
+  return `http://localhost:${port}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// The page a guest's phone opens: the poster and a download link, in the
+// language the kiosk was using
+export const handoffPage = (imagePath: string, fileName: string, locale: LocaleId): string => {
+  const { dir, messages } = getLocale(locale);
+  return `<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(messages.kiosk.handoffPageTitle)}</title>
+    <style>
+      body { margin: 0; min-height: 100vh; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 16px; background: #000; color: #fff; font-family: monospace; }
+      img { max-width: 100%; max-height: 80vh; }
+      a { color: #000; background: #eab308; padding: 12px 24px; text-decoration: none; font-weight: bold; text-transform: uppercase; letter-spacing: 0.1em; }
+    </style>
+  </head>
+  <body>
+    <img src="${escapeHtml(imagePath)}" alt="${escapeHtml(messages.kiosk.handoffImage)}" />
+    <a href="${escapeHtml(imagePath)}" download="${escapeHtml(fileName)}">${escapeHtml(messages.kiosk.handoffDownload)}</a>
+  </body>
+</html>`;
+};
@@ -0,0 +1,406 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GenerationErrorKind } from '../types';
+import { isThemeMode } from '../themes';
+import { DEFAULT_LOCALE, getLocale, isLocaleId, matchLocale } from '../locales';
+import { editWithGemini, generateWithGemini } from '../services/geminiService';
+import { GenerationError, serializeGenerationError, toGenerationError } from '../services/generationErrors';
+import { MAX_GROUP_SUBJECTS } from '../services/teamPoster';
+import { MAX_EDIT_HISTORY, normalizeEditInstruction } from '../services/promptBuilder';
+import { DEFAULT_HANDOFF_MINUTES, normalizeKioskConfig } from '../services/kiosk';
+import { createRateLimiter } from './rateLimit';
+import { createHandoffStore, handoffPage, publicBaseUrl } from './handoff';
+import { resolveStaticPath } from './staticPath';
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Pick up GEMINI_API_KEY etc. from the same file Vite reads
+const ENV_FILE = path.join(ROOT_DIR, '.env.local');
+if (existsSync(ENV_FILE)) process.loadEnvFile(ENV_FILE);
+
+const PORT = Number(process.env.API_PORT) || 3001;
+const MAX_BODY_BYTES = Number(process.env.API_MAX_BODY_BYTES) || 4 * 1024 * 1024;
+const RATE_LIMIT_WINDOW_MS = Number(process.env.API_RATE_LIMIT_WINDOW_MS) || 60_000;
+const RATE_LIMIT_MAX = Number(process.env.API_RATE_LIMIT_MAX) || 10;
+// Serve the built client when running standalone in production
+const STATIC_DIR = path.join(ROOT_DIR, 'dist');
+// Kiosk mode is on when KIOSK_CONFIG names a JSON file (see kiosk.example.json).
+// It is re-read on each request, so edits apply without a restart.
+const KIOSK_CONFIG_FILE = process.env.KIOSK_CONFIG ? path.resolve(ROOT_DIR, process.env.KIOSK_CONFIG) : null;
+const HANDOFF_MINUTES = Number(process.env.KIOSK_HANDOFF_MINUTES) || DEFAULT_HANDOFF_MINUTES;
+const HANDOFF_TTL_MS = HANDOFF_MINUTES * 60_000;
+const HANDOFF_MAX_ENTRIES = 100;
+
+const ACCEPTED_IMAGE = /^data:image\/(jpeg|png|webp);base64,/;
+const HANDOFF_IMAGE = /^data:image\/(jpeg|png);base64,(.+)$/;
+const HANDOFF_PATH = /^\/handoff\/([\w-]+)(?:\.(jpg|png))?$/;
+const HANDOFF_API_PATH = /^\/api\/handoff\/([\w-]+)$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+};
+
+// HTTP status for each failure kind returned to the client
+const STATUS_BY_KIND: Record<GenerationErrorKind, number> = {
+  [GenerationErrorKind.SAFETY_BLOCK]: 422,
+  [GenerationErrorKind.MODEL_REFUSAL]: 422,
+  [GenerationErrorKind.AUTH]: 502,
+  [GenerationErrorKind.OVERLOADED]: 503,
+  [GenerationErrorKind.BAD_INPUT]: 400,
+  [GenerationErrorKind.NETWORK]: 502,
+  [GenerationErrorKind.TIMEOUT]: 504,
+  [GenerationErrorKind.UNKNOWN]: 500,
+};
+
+class PayloadTooLargeError extends Error {}
+
+const rateLimiter = createRateLimiter({ windowMs: RATE_LIMIT_WINDOW_MS, max: RATE_LIMIT_MAX });
+const handoffLimiter = createRateLimiter({ windowMs: RATE_LIMIT_WINDOW_MS, max: RATE_LIMIT_MAX });
+const handoffs = createHandoffStore({ ttlMs: HANDOFF_TTL_MS, maxEntries: HANDOFF_MAX_ENTRIES });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: GenerationError, headers?: Record<string, string>) => {
+  sendJson(res, STATUS_BY_KIND[error.kind], { error: serializeGenerationError(error) }, headers);
+};
+
+const clientIp = (req: IncomingMessage): string => {
+  // Only trust X-Forwarded-For when explicitly running behind a proxy
+  const forwarded = process.env.API_TRUST_PROXY ? req.headers['x-forwarded-for'] : undefined;
+  const first = Array.isArray(forwarded) ? forwarded[0] : forwarded?.split(',')[0];
+  return first?.trim() || req.socket.remoteAddress || 'unknown';
+};
+
+// Buffer the request body, bailing out as soon as it passes the size cap
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > MAX_BODY_BYTES) throw new PayloadTooLargeError();
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new PayloadTooLargeError();
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// Generation and edit requests share the rate limit and body handling.
+// Resolves null once an error response has been sent.
+const readGenerationPayload = async (req: IncomingMessage, res: ServerResponse): Promise<Record<string, unknown> | null> => {
+  const limit = rateLimiter.check(clientIp(req));
+  if (!limit.allowed) {
+    const retryAfter = String(Math.ceil(limit.retryAfterMs / 1000));
+    const error = new GenerationError(GenerationErrorKind.OVERLOADED, "Rate limit exceeded.", { retryable: false });
+    sendJson(res, 429, { error: serializeGenerationError(error) }, { 'Retry-After': retryAfter });
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(await readBody(req));
+    if (payload && typeof payload === 'object' && !Array.isArray(payload)) return payload;
+    sendError(res, new GenerationError(GenerationErrorKind.BAD_INPUT, "Request body must be a JSON object."));
+    return null;
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      sendJson(res, 413, { error: serializeGenerationError(new GenerationError(GenerationErrorKind.BAD_INPUT, `Request body exceeds ${MAX_BODY_BYTES} bytes.`)) });
+      req.destroy();
+      return null;
+    }
+    sendError(res, new GenerationError(GenerationErrorKind.BAD_INPUT, "Request body is not valid JSON."));
+    return null;
+  }
+};
+
+// Stop paying for the model call if the browser gives up
+const abortOnClose = (res: ServerResponse): AbortController => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller;
+};
+
+const handleGenerate = async (req: IncomingMessage, res: ServerResponse) => {
+  const payload = await readGenerationPayload(req, res);
+  if (!payload) return;
+
+  // A single `image`, or `images` for a group protocol
+  const { image, images, theme, briefing, locale } = payload;
+  const subjects = images === undefined ? [image] : images;
+  if (!Array.isArray(subjects) || subjects.length === 0 || subjects.length > MAX_GROUP_SUBJECTS) {
+    sendError(res, new GenerationError(GenerationErrorKind.BAD_INPUT, `Expected 1 to ${MAX_GROUP_SUBJECTS} images in \`images\`.`));
+    return;
+  }
+  if (!subjects.every((subject): subject is string => typeof subject === 'string' && ACCEPTED_IMAGE.test(subject))) {
+    sendError(res, new GenerationError(GenerationErrorKind.BAD_INPUT, `Expected a JPEG, PNG or WebP data URL in \`${images === undefined ? 'image' : 'images'}\`.`));
+    return;
+  }
+  if (!isThemeMode(theme)) {
+    sendError(res, new GenerationError(GenerationErrorKind.BAD_INPUT, `Unknown theme "${String(theme)}".`));
+    return;
+  }
+
+  const controller = abortOnClose(res);
+  try {
+    const imageUrl = await generateWithGemini(subjects, theme, {
+      apiKey: process.env.GEMINI_API_KEY,
+      model: process.env.GEMINI_IMAGE_MODEL || undefined,
+      signal: controller.signal,
+      briefing,
+      locale,
+    });
+    sendJson(res, 200, { imageUrl });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    sendError(res, toGenerationError(error));
+  }
+};
+
+// Follow-up edit of a generated poster: the current image, the new
+// instruction and the instructions that came before it
+const handleEdit = async (req: IncomingMessage, res: ServerResponse) => {
+  const payload = await readGenerationPayload(req, res);
+  if (!payload) return;
+
+  const { image, theme, locale } = payload;
+  if (typeof image !== 'string' || !ACCEPTED_IMAGE.test(image)) {
+    sendError(res, new GenerationError(GenerationErrorKind.BAD_INPUT, "Expected a JPEG, PNG or WebP data URL in `image`."));
+    return;
+  }
+  const instruction = normalizeEditInstruction(payload.instruction);
+  if (!instruction) {
+    sendError(res, new GenerationError(GenerationErrorKind.BAD_INPUT, "Expected an edit in `instruction`."));
+    return;
+  }
+  if (!isThemeMode(theme)) {
+    sendError(res, new GenerationError(GenerationErrorKind.BAD_INPUT, `Unknown theme "${String(theme)}".`));
+    return;
+  }
+  const history = (Array.isArray(payload.history) ? payload.history : [])
+    .map(normalizeEditInstruction)
+    .filter((earlier): earlier is string => earlier !== null)
+    .slice(-MAX_EDIT_HISTORY);
+
+  const controller = abortOnClose(res);
+  try {
+    const imageUrl = await editWithGemini(image, instruction, theme, {
+      apiKey: process.env.GEMINI_API_KEY,
+      model: process.env.GEMINI_IMAGE_MODEL || undefined,
+      signal: controller.signal,
+      history,
+      locale,
+    });
+    sendJson(res, 200, { imageUrl });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    sendError(res, toGenerationError(error));
+  }
+};
+
+const handleKioskConfig = async (res: ServerResponse) => {
+  if (!KIOSK_CONFIG_FILE) {
+    sendJson(res, 404, { error: "Kiosk mode is off." });
+    return;
+  }
+  try {
+    const config = normalizeKioskConfig(JSON.parse(await readFile(KIOSK_CONFIG_FILE, 'utf8')));
+    sendJson(res, 200, { ...config, handoffMinutes: HANDOFF_MINUTES });
+  } catch (error) {
+    console.error(`Could not read kiosk config ${KIOSK_CONFIG_FILE}:`, error);
+    sendJson(res, 500, { error: "Kiosk config is unreadable." });
+  }
+};
+
+// Only kiosks hand off, so the endpoint is closed otherwise
+const handleCreateHandoff = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!KIOSK_CONFIG_FILE) {
+    sendJson(res, 404, { error: "Kiosk mode is off." });
+    return;
+  }
+  const limit = handoffLimiter.check(clientIp(req));
+  if (!limit.allowed) {
+    sendJson(res, 429, { error: "Rate limit exceeded." }, { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) });
+    return;
+  }
+
+  let payload: { image?: unknown; locale?: unknown };
+  try {
+    payload = JSON.parse(await readBody(req));
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      sendJson(res, 413, { error: `Request body exceeds ${MAX_BODY_BYTES} bytes.` });
+      req.destroy();
+      return;
+    }
+    sendJson(res, 400, { error: "Request body is not valid JSON." });
+    return;
+  }
+
+  const match = typeof payload.image === 'string' ? payload.image.match(HANDOFF_IMAGE) : null;
+  if (!match) {
+    sendJson(res, 400, { error: "Expected a JPEG or PNG data URL in `image`." });
+    return;
+  }
+  const locale = isLocaleId(payload.locale) ? payload.locale : DEFAULT_LOCALE;
+  const { token, expiresAt } = handoffs.put(Buffer.from(match[2], 'base64'), `image/${match[1]}`, locale);
+  sendJson(res, 201, { token, url: `${publicBaseUrl(PORT)}/handoff/${token}`, expiresAt });
+};
+
+// The kiosk deletes a poster as soon as its session ends. Knowing the token
+// is the only authorisation, as it is for fetching the poster.
+const handleDeleteHandoff = (res: ServerResponse, token: string) => {
+  handoffs.remove(token);
+  res.writeHead(204);
+  res.end();
+};
+
+// /handoff/<token> is the page the QR code opens; /handoff/<token>.jpg|png is the poster
+const serveHandoff = (req: IncomingMessage, res: ServerResponse, token: string, extension: string | undefined) => {
+  const entry = handoffs.get(token);
+  if (!entry) {
+    // Nothing stored to say which language, so go by the phone's
+    const languages = (req.headers['accept-language'] ?? '').split(',').map(language => language.split(';')[0].trim());
+    const { messages } = getLocale(matchLocale(languages) ?? DEFAULT_LOCALE);
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(messages.kiosk.handoffExpired);
+    return;
+  }
+  const fileExtension = entry.contentType === 'image/png' ? 'png' : 'jpg';
+  if (extension) {
+    res.writeHead(200, { 'Content-Type': entry.contentType, 'Cache-Control': 'no-store' });
+    res.end(entry.image);
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES['.html'], 'Cache-Control': 'no-store' });
+  res.end(handoffPage(`/handoff/${token}.${fileExtension}`, `protocol-poster.${fileExtension}`, entry.locale));
+};
+
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const filePath = resolveStaticPath(STATIC_DIR, pathname);
+  if (filePath === null) {
+    res.writeHead(400);
+    res.end('Bad Request');
+    return;
+  }
+  const target = existsSync(filePath) && path.extname(filePath)
+    ? filePath
+    : path.join(STATIC_DIR, 'index.html');
+
+  try {
+    const body = await readFile(target);
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(target)] || 'application/octet-stream' });
+    res.end(body);
+  } catch {
+    res.writeHead(404);
+    res.end('Not Found');
+  }
+};
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  if (pathname === '/api/generate') {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' });
+      res.end();
+      return;
+    }
+    handleGenerate(req, res).catch(error => {
+      console.error("Unhandled /api/generate error:", error);
+      if (!res.headersSent) sendError(res, toGenerationError(error));
+    });
+    return;
+  }
+
+  if (pathname === '/api/edit') {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' });
+      res.end();
+      return;
+    }
+    handleEdit(req, res).catch(error => {
+      console.error("Unhandled /api/edit error:", error);
+      if (!res.headersSent) sendError(res, toGenerationError(error));
+    });
+    return;
+  }
+
+  if (pathname === '/api/kiosk' && req.method === 'GET') {
+    handleKioskConfig(res);
+    return;
+  }
+
+  if (pathname === '/api/handoff') {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' });
+      res.end();
+      return;
+    }
+    handleCreateHandoff(req, res).catch(error => {
+      console.error("Unhandled /api/handoff error:", error);
+      if (!res.headersSent) sendJson(res, 500, { error: "Hand-off failed." });
+    });
+    return;
+  }
+
+  const handoffApi = pathname.match(HANDOFF_API_PATH);
+  if (handoffApi) {
+    if (req.method !== 'DELETE') {
+      res.writeHead(405, { Allow: 'DELETE' });
+      res.end();
+      return;
+    }
+    handleDeleteHandoff(res, handoffApi[1]);
+    return;
+  }
+
+  const handoff = pathname.match(HANDOFF_PATH);
+  if (handoff && req.method === 'GET') {
+    serveHandoff(req, res, handoff[1], handoff[2]);
+    return;
+  }
+
+  if (pathname === '/api/health') {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    serveStatic(req, res).catch(error => {
+      console.error("Unhandled static file error:", error);
+      if (!res.headersSent) {
+        res.writeHead(500);
+        res.end();
+      }
+    });
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+if (!process.env.GEMINI_API_KEY) {
+  console.warn("GEMINI_API_KEY is not set; /api/generate will fail with an auth error.");
+}
+
+server.listen(PORT, () => {
+  console.log(`Protocol API listening on http://localhost:${PORT}`);
+  if (KIOSK_CONFIG_FILE) console.log(`Kiosk mode on (${KIOSK_CONFIG_FILE}); phones hand off via ${publicBaseUrl(PORT)}`);
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  it('allows up to `max` requests per window, then says when to retry', () => {
+    const limiter = createRateLimiter({ windowMs: 60_000, max: 2 });
+    expect(limiter.check('10.0.0.1', 1_000).allowed).toBe(true);
+    expect(limiter.check('10.0.0.1', 2_000).allowed).toBe(true);
+    expect(limiter.check('10.0.0.1', 31_000)).toEqual({ allowed: false, retryAfterMs: 30_000 });
+  });
+
+  it('starts a fresh window once the old one has passed', () => {
+    const limiter = createRateLimiter({ windowMs: 60_000, max: 1 });
+    limiter.check('10.0.0.1', 0);
+    expect(limiter.check('10.0.0.1', 59_999).allowed).toBe(false);
+    expect(limiter.check('10.0.0.1', 60_000).allowed).toBe(true);
+  });
+
+  it('counts each client separately', () => {
+    const limiter = createRateLimiter({ windowMs: 60_000, max: 1 });
+    expect(limiter.check('10.0.0.1', 0).allowed).toBe(true);
+    expect(limiter.check('10.0.0.2', 0).allowed).toBe(true);
+    expect(limiter.check('10.0.0.1', 0).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+interface RateWindow {
+  start: number;
+  count: number;
+}
+
+// Fixed-window request counter keyed by client IP. In-memory, so limits are
+// per server process.
+export const createRateLimiter = ({ windowMs, max }: RateLimitOptions) => {
+  const windows = new Map<string, RateWindow>();
+
+  // Drop expired windows so the map doesn't grow without bound
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (now - window.start >= windowMs) windows.delete(key);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  const check = (key: string, now = Date.now()): RateLimitResult => {
+    let window = windows.get(key);
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > max) {
+      return { allowed: false, retryAfterMs: window.start + windowMs - now };
+    }
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { check };
+};
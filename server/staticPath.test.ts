@@ -0,0 +1,28 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { resolveStaticPath } from './staticPath';
+
+const ROOT = path.resolve('/srv/app/dist');
+
+describe('resolveStaticPath', () => {
+  it('maps request paths onto files under the root', () => {
+    expect(resolveStaticPath(ROOT, '/assets/index.js')).toBe(path.join(ROOT, 'assets', 'index.js'));
+    expect(resolveStaticPath(ROOT, '/')).toBe(path.join(ROOT, '/'));
+    expect(resolveStaticPath(ROOT, '/caf%C3%A9.png')).toBe(path.join(ROOT, 'café.png'));
+  });
+
+  it('keeps dot segments, encoded or not, inside the root', () => {
+    for (const pathname of ['/../../etc/passwd', '/%2e%2e/%2e%2e/etc/passwd', '/assets/..%2f..%2f..%2fetc/passwd']) {
+      expect(resolveStaticPath(ROOT, pathname)).toBe(path.join(ROOT, 'etc', 'passwd'));
+    }
+  });
+
+  it('does not treat a sibling directory with the same prefix as inside', () => {
+    expect(resolveStaticPath(ROOT, '/../dist-private/key.pem')).toBe(path.join(ROOT, 'dist-private', 'key.pem'));
+  });
+
+  it('returns null for malformed percent-encoding', () => {
+    expect(resolveStaticPath(ROOT, '/%E0%A4%A')).toBeNull();
+    expect(resolveStaticPath(ROOT, '/%')).toBeNull();
+  });
+});
@@ -0,0 +1,15 @@
+import path from 'node:path';
+
+// Map a request path onto a file under `root`. The path is normalised as if
+// `root` were `/`, so `..` segments can't climb out of it. Null when the
+// percent-encoding is malformed, e.g. /%E0%A4%A.
+export const resolveStaticPath = (root: string, pathname: string): string | null => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+  const filePath = path.join(root, path.normalize(`/${decoded}`));
+  return filePath === root || filePath.startsWith(root + path.sep) ? filePath : root;
+};
@@ -0,0 +1,44 @@
+// Hand-built JPEG byte streams for the upload and metadata tests. Only the
+// marker structure matters; the scan data is not a decodable image.
+
+export const SOI = [0xff, 0xd8];
+export const EOI = [0xff, 0xd9];
+
+export const segment = (marker: number, payload: number[]): number[] => {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+};
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// APP1 "Exif" with a single IFD0 entry for the orientation tag
+export const exifSegment = (orientation: number, littleEndian = true): number[] => {
+  const u16 = (value: number) => (littleEndian ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff]);
+  const u32 = (value: number) => (littleEndian ? [...u16(value & 0xffff), ...u16(value >>> 16)] : [...u16(value >>> 16), ...u16(value & 0xffff)]);
+  const tiff = [
+    ...(littleEndian ? ascii('II') : ascii('MM')), ...u16(42), ...u32(8),
+    ...u16(1),
+    ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+    ...u32(0),
+  ];
+  return segment(0xe1, [...ascii('Exif'), 0, 0, ...tiff]);
+};
+
+// Baseline start-of-frame with three components
+export const sofSegment = (width: number, height: number): number[] =>
+  segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]);
+
+export const jfifSegment = (): number[] => segment(0xe0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+export const commentSegment = (text: string): number[] => segment(0xfe, ascii(text));
+
+// Start of scan followed by some entropy-coded bytes, which may contain 0xff
+export const scan = (): number[] => [...segment(0xda, [1, 1, 0, 0, 0x3f, 0]), 0x12, 0xff, 0x00, 0xe1, 0x34];
+
+export const toBuffer = (bytes: number[]): ArrayBuffer => new Uint8Array(bytes).buffer;
+
+export const toDataUrl = (bytes: number[]): string =>
+  `data:image/jpeg;base64,${Buffer.from(bytes).toString('base64')}`;
+
+export const fromDataUrl = (dataUrl: string): number[] =>
+  Array.from(Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64'));
@@ -0,0 +1,183 @@
+import { StingVoice, TickVoice } from "../types";
+
+const STORAGE_KEYS = {
+  muted: 'protocol.audio.muted',
+  volume: 'protocol.audio.volume',
+};
+
+const DEFAULT_VOLUME = 0.6;
+// Gain curves can't ramp exponentially to zero
+const SILENCE = 0.0001;
+
+const readStored = <T>(key: string, parse: (value: string) => T, fallback: T): T => {
+  try {
+    const value = localStorage.getItem(key);
+    return value === null ? fallback : parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+// Stored values may be hand-edited or corrupt; NaN would make gain ramps throw
+const clampVolume = (value: number) => (Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : DEFAULT_VOLUME);
+
+const writeStored = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Storage can be unavailable (private mode, quota); settings just won't persist
+  }
+};
+
+interface ToneOptions {
+  type: OscillatorType;
+  frequency: number;
+  start: number;
+  attack: number;
+  decay: number;
+  peak: number;
+}
+
+// One oscillator with an attack/exponential-decay envelope
+const tone = (ctx: AudioContext, out: AudioNode, { type, frequency, start, attack, decay, peak }: ToneOptions) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(frequency, start);
+  gain.gain.setValueAtTime(SILENCE, start);
+  gain.gain.linearRampToValueAtTime(peak, start + attack);
+  gain.gain.exponentialRampToValueAtTime(SILENCE, start + attack + decay);
+  osc.connect(gain).connect(out);
+  osc.start(start);
+  osc.stop(start + attack + decay + 0.05);
+};
+
+// Short filtered noise burst, used for the metallic shimmer of bells and hits
+const noiseBurst = (ctx: AudioContext, out: AudioNode, start: number, duration: number, peak: number, filterFrequency: number) => {
+  const buffer = ctx.createBuffer(1, Math.ceil(ctx.sampleRate * duration), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  source.buffer = buffer;
+  filter.type = 'bandpass';
+  filter.frequency.value = filterFrequency;
+  gain.gain.setValueAtTime(peak, start);
+  gain.gain.exponentialRampToValueAtTime(SILENCE, start + duration);
+  source.connect(filter).connect(gain).connect(out);
+  source.start(start);
+};
+
+const TICK_VOICES: Record<TickVoice, (ctx: AudioContext, out: AudioNode, at: number) => void> = {
+  // The CTU clock's two-note beep
+  doubleBeep: (ctx, out, at) => {
+    [0, 0.14].forEach(offset => {
+      tone(ctx, out, { type: 'square', frequency: 1320, start: at + offset, attack: 0.005, decay: 0.07, peak: 0.12 });
+      tone(ctx, out, { type: 'sine', frequency: 660, start: at + offset, attack: 0.005, decay: 0.09, peak: 0.2 });
+    });
+  },
+  sleighBells: (ctx, out, at) => {
+    [2637, 3136, 3951, 4699].forEach((frequency, i) => {
+      tone(ctx, out, { type: 'sine', frequency, start: at + i * 0.012, attack: 0.002, decay: 0.18, peak: 0.08 });
+    });
+    noiseBurst(ctx, out, at, 0.12, 0.15, 6000);
+  },
+};
+
+const STING_VOICES: Record<StingVoice, (ctx: AudioContext, out: AudioNode, at: number) => void> = {
+  // Low, filtered brass-like stab
+  dramatic: (ctx, out, at) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(2400, at);
+    filter.frequency.exponentialRampToValueAtTime(200, at + 1.6);
+    filter.connect(out);
+    [55, 82.41, 110, 164.81].forEach(frequency => {
+      tone(ctx, filter, { type: 'sawtooth', frequency, start: at, attack: 0.02, decay: 1.8, peak: 0.12 });
+    });
+    noiseBurst(ctx, out, at, 0.4, 0.3, 120);
+  },
+  // Bright rising arpeggio
+  fanfare: (ctx, out, at) => {
+    [523.25, 659.25, 783.99, 1046.5].forEach((frequency, i) => {
+      tone(ctx, out, { type: 'triangle', frequency, start: at + i * 0.12, attack: 0.01, decay: 0.6, peak: 0.18 });
+    });
+    noiseBurst(ctx, out, at + 0.36, 0.3, 0.1, 7000);
+  },
+};
+
+// Web Audio sound subsystem. Nothing is created until unlock() runs inside a
+// user gesture, as browsers require.
+const createAudioEngine = () => {
+  let ctx: AudioContext | null = null;
+  let bus: GainNode | null = null;
+  let analyser: AnalyserNode | null = null;
+  let master: GainNode | null = null;
+  let samples: Float32Array<ArrayBuffer> | null = null;
+
+  let muted = readStored(STORAGE_KEYS.muted, value => value === 'true', false);
+  let volume = readStored(STORAGE_KEYS.volume, value => clampVolume(Number(value)), DEFAULT_VOLUME);
+
+  const applyGain = () => {
+    if (master && ctx) master.gain.setTargetAtTime(muted ? 0 : volume, ctx.currentTime, 0.01);
+  };
+
+  // voices -> bus -> analyser -> master (mute/volume) -> speakers.
+  // The analyser sits before the master gain so visuals keep working muted.
+  const ensureGraph = (): AudioContext => {
+    if (!ctx) {
+      ctx = new AudioContext();
+      bus = ctx.createGain();
+      analyser = ctx.createAnalyser();
+      analyser.fftSize = 512;
+      samples = new Float32Array(analyser.fftSize);
+      master = ctx.createGain();
+      bus.connect(analyser).connect(master).connect(ctx.destination);
+      applyGain();
+    }
+    return ctx;
+  };
+
+  const unlock = async () => {
+    const context = ensureGraph();
+    if (context.state === 'suspended') await context.resume();
+  };
+
+  const play = (voice: (ctx: AudioContext, out: AudioNode, at: number) => void) => {
+    if (!ctx || !bus || ctx.state !== 'running') return;
+    voice(ctx, bus, ctx.currentTime);
+  };
+
+  // Current loudness (0-1) of everything playing, for visualisers
+  const getLevel = (): number => {
+    if (!analyser || !samples || ctx?.state !== 'running') return 0;
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    return Math.min(1, Math.sqrt(sum / samples.length) * 5);
+  };
+
+  return {
+    unlock,
+    isUnlocked: () => ctx?.state === 'running',
+    playTick: (voice: TickVoice) => play(TICK_VOICES[voice]),
+    playSting: (voice: StingVoice) => play(STING_VOICES[voice]),
+    getLevel,
+    isMuted: () => muted,
+    getVolume: () => volume,
+    setMuted: (value: boolean) => {
+      muted = value;
+      writeStored(STORAGE_KEYS.muted, String(value));
+      applyGain();
+    },
+    setVolume: (value: number) => {
+      volume = clampVolume(value);
+      writeStored(STORAGE_KEYS.volume, String(volume));
+      applyGain();
+    },
+  };
+};
+
+export const audioEngine = createAudioEngine();
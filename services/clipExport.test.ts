@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { clipFrameCount, clipFrameState } from './clipExport';
+
+const start = new Date(Date.UTC(2025, 11, 24, 23, 59, 55, 0));
+
+describe('clipFrameState', () => {
+  it('steps frames from the start time alone', () => {
+    expect(+clipFrameState(start, 0, 30).at).toBe(+start);
+    expect(+clipFrameState(start, 45, 30).at).toBe(+start + 1500);
+    expect(+clipFrameState(start, 7, 10).at).toBe(+start + 700);
+  });
+
+  it('pulses the digits for 100ms and flashes the tick for 50ms after each second', () => {
+    const at30 = [0, 1, 2, 3, 4].map(index => clipFrameState(start, index, 30));
+    expect(at30.map(({ pulse }) => pulse)).toEqual([true, true, true, false, false]);
+    expect(at30.map(({ tick }) => tick)).toEqual([true, true, false, false, false]);
+  });
+
+  it('widens both flashes to one frame at low frame rates', () => {
+    const at4 = [0, 1, 2, 3, 4].map(index => clipFrameState(start, index, 4));
+    expect(at4.map(({ pulse }) => pulse)).toEqual([true, false, false, false, true]);
+    expect(at4.map(({ tick }) => tick)).toEqual([true, false, false, false, true]);
+  });
+
+  it('lines flashes up with wall-clock seconds when the clip starts mid-second', () => {
+    const offset = new Date(+start + 950);
+    expect(clipFrameState(offset, 0, 20)).toMatchObject({ pulse: false, tick: false });
+    expect(clipFrameState(offset, 1, 20)).toMatchObject({ pulse: true, tick: true });
+  });
+
+  it('handles start times before the epoch', () => {
+    expect(clipFrameState(new Date(-250), 0, 30)).toMatchObject({ pulse: false, tick: false });
+    expect(clipFrameState(new Date(-1000), 0, 30)).toMatchObject({ pulse: true, tick: true });
+  });
+});
+
+describe('clipFrameCount', () => {
+  it('covers the duration at the given rate', () => {
+    expect(clipFrameCount(10_000, 30)).toBe(300);
+    expect(clipFrameCount(10_000, 10)).toBe(100);
+  });
+});
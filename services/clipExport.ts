@@ -0,0 +1,159 @@
+import { ClockDisplay, LocaleId, ThemeMode } from "../types";
+import { clockGroups, clockMilliseconds } from "../components/sevenSegment";
+import { POSTER_SIZES, PosterSize, drawPoster } from "./posterExport";
+import { createGifEncoder } from "./gifEncoder";
+import { loadImage } from "./imageUtils";
+import { sleep } from "./retry";
+
+export type ClipFormat = 'webm' | 'gif';
+
+// Match Clock: the digits pulse for 100ms and the tick bar flashes for 50ms
+// after every second boundary
+const PULSE_MS = 100;
+const TICK_MS = 50;
+
+export const CLIP_DEFAULTS = {
+  durationMs: 10000,
+  webmFps: 30,
+  gifFps: 10,
+  // GIFs are encoded on the main thread, so keep them small
+  gifScale: 0.5,
+};
+
+export interface ClipFrameState {
+  at: Date;
+  pulse: boolean;
+  tick: boolean;
+}
+
+// What frame `index` shows, derived only from the start time so a clip is
+// reproducible without real time passing. Flash windows are widened to one
+// frame so low frame rates never skip them.
+export const clipFrameState = (start: Date, index: number, fps: number): ClipFrameState => {
+  const frameMs = 1000 / fps;
+  const at = new Date(+start + index * frameMs);
+  const phase = ((+at % 1000) + 1000) % 1000;
+  return {
+    at,
+    pulse: phase < Math.max(PULSE_MS, frameMs),
+    tick: phase < Math.max(TICK_MS, frameMs),
+  };
+};
+
+export const clipFrameCount = (durationMs: number, fps: number) => Math.round(durationMs / 1000 * fps);
+
+export const isWebmSupported = () =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm');
+
+interface ExportClipOptions {
+  imageUrl: string;
+  theme: ThemeMode;
+  locale: LocaleId;
+  targetDate: Date;
+  display: ClockDisplay;
+  size: PosterSize;
+  format: ClipFormat;
+  // First frame's wall-clock time; defaults to now
+  start?: Date;
+  durationMs?: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not supported.");
+  return { canvas, ctx };
+};
+
+// MediaRecorder captures in real time, so frames are paced with timers; the
+// content of each frame still comes from clipFrameState.
+const recordWebm = async (
+  ctx: CanvasRenderingContext2D,
+  drawFrame: (index: number, fps: number) => void,
+  frames: number,
+  fps: number,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const stream = ctx.canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => chunks.push(event.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  try {
+    for (let i = 0; i < frames; i++) {
+      drawFrame(i, fps);
+      track.requestFrame();
+      onProgress?.((i + 1) / frames);
+      await sleep(1000 / fps, signal);
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(t => t.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+const encodeGif = async (
+  ctx: CanvasRenderingContext2D,
+  drawFrame: (index: number, fps: number) => void,
+  frames: number,
+  fps: number,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { width, height } = ctx.canvas;
+  const encoder = createGifEncoder(width, height, Math.round(100 / fps));
+  for (let i = 0; i < frames; i++) {
+    drawFrame(i, fps);
+    encoder.addFrame(ctx.getImageData(0, 0, width, height));
+    onProgress?.((i + 1) / frames);
+    // Yield so the UI can repaint progress between frames
+    await sleep(0, signal);
+  }
+  return encoder.finish();
+};
+
+// Render a short clip of the cinematic view with the countdown ticking
+export const exportClip = async ({
+  imageUrl,
+  theme,
+  locale,
+  targetDate,
+  display,
+  size,
+  format,
+  start = new Date(),
+  durationMs = CLIP_DEFAULTS.durationMs,
+  onProgress,
+  signal,
+}: ExportClipOptions): Promise<Blob> => {
+  await document.fonts.ready;
+  const image = await loadImage(imageUrl);
+
+  const scale = format === 'gif' ? CLIP_DEFAULTS.gifScale : 1;
+  const { ctx } = createCanvas(POSTER_SIZES[size].width * scale, POSTER_SIZES[size].height * scale);
+
+  const drawFrame = (index: number, fps: number) => {
+    const { at, pulse, tick } = clipFrameState(start, index, fps);
+    drawPoster(ctx, { image, theme, locale, clock: clockGroups(clockMilliseconds(targetDate, at, display.countUp), display), pulse, tick });
+  };
+
+  if (format === 'webm') {
+    const fps = CLIP_DEFAULTS.webmFps;
+    return recordWebm(ctx, drawFrame, clipFrameCount(durationMs, fps), fps, onProgress, signal);
+  }
+  const fps = CLIP_DEFAULTS.gifFps;
+  return encodeGif(ctx, drawFrame, clipFrameCount(durationMs, fps), fps, onProgress, signal);
+};
+
+export const clipFileName = (theme: ThemeMode, size: PosterSize, format: ClipFormat) =>
+  `protocol-${theme.toLowerCase()}-${size}-countdown.${format}`;
@@ -0,0 +1,21 @@
+// Run async tasks with at most `limit` in flight, preserving result order.
+// Never rejects; inspect each PromiseSettledResult instead.
+export const runWithConcurrency = async <T>(tasks: Array<() => Promise<T>>, limit: number): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
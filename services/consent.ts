@@ -0,0 +1,27 @@
+// Bump when the privacy notice changes materially so everyone is asked again
+const CONSENT_VERSION = '1';
+const STORAGE_KEY = 'protocol.consent';
+
+export const hasStoredConsent = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === CONSENT_VERSION;
+  } catch {
+    return false;
+  }
+};
+
+export const storeConsent = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, CONSENT_VERSION);
+  } catch {
+    // Storage can be unavailable (private mode, quota); we'll just ask again next visit
+  }
+};
+
+export const clearStoredConsent = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored to clear
+  }
+};
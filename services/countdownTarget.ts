@@ -0,0 +1,167 @@
+import { ClockDisplay, ClockFormat, CountdownPreset, CountdownStatus, CountdownTarget } from "../types";
+import { CLOCK_FORMATS, DEFAULT_CLOCK_DISPLAY } from "../components/sevenSegment";
+
+// How long the "Protocol Complete" celebration lasts before rolling over
+export const CELEBRATION_MS = 24 * 60 * 60 * 1000;
+
+// Picker order; labels live in the locale catalogues (messages.presets)
+export const COUNTDOWN_PRESETS: CountdownPreset[] = ['christmasEve', 'christmasDay', 'newYear', 'custom'];
+
+// Month (0-indexed), day, hour, minute in the target's time zone
+interface WallTime {
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const PRESET_WALL_TIMES: Record<Exclude<CountdownPreset, 'custom'>, WallTime> = {
+  christmasEve: { month: 11, day: 24, hour: 0, minute: 0 },
+  christmasDay: { month: 11, day: 25, hour: 0, minute: 0 },
+  newYear: { month: 0, day: 1, hour: 0, minute: 0 },
+};
+
+export const localTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const DEFAULT_TARGET: CountdownTarget = {
+  preset: 'christmasDay',
+  timeZone: localTimeZone(),
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Offset (ms) of `timeZone` from UTC at the given instant
+const zoneOffset = (utcMs: number, timeZone: string): number => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(utcMs)).map(p => [p.type, p.value]));
+  const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+};
+
+// Convert a wall-clock time in an IANA zone to an instant. Two passes so the
+// offset used is the one in force at the result, which matters across DST.
+export const zonedTimeToDate = (year: number, { month, day, hour, minute }: WallTime, timeZone: string): Date => {
+  const guess = Date.UTC(year, month, day, hour, minute);
+  const first = guess - zoneOffset(guess, timeZone);
+  const second = guess - zoneOffset(first, timeZone);
+  return new Date(second);
+};
+
+// Year of an instant as seen in `timeZone`
+const zonedYear = (date: Date, timeZone: string): number =>
+  Number(new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric' }).format(date));
+
+const parseCustom = (custom: string | undefined): { year: number; wall: WallTime } | null => {
+  const match = custom?.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return { year, wall: { month: month - 1, day, hour, minute } };
+};
+
+// Where the countdown stands at `now`: counting down to the next occurrence,
+// or celebrating one that was reached less than CELEBRATION_MS ago. Targets
+// recur yearly, so once the celebration ends the next year's date takes over.
+// A custom date counts as its first occurrence and recurs on its anniversary.
+export const countdownStatus = (target: CountdownTarget, now: Date = new Date()): CountdownStatus => {
+  const custom = target.preset === 'custom' ? parseCustom(target.custom) : null;
+  const wall = custom?.wall ?? PRESET_WALL_TIMES[target.preset === 'custom' ? 'christmasDay' : target.preset];
+  const firstYear = custom?.year ?? -Infinity;
+
+  let year = Math.max(zonedYear(now, target.timeZone) - 1, firstYear);
+  for (;;) {
+    const occurrence = zonedTimeToDate(year, wall, target.timeZone);
+    if (+now < +occurrence) {
+      return { phase: 'counting', targetDate: occurrence, nextChange: occurrence };
+    }
+    const celebrationEnd = new Date(+occurrence + CELEBRATION_MS);
+    if (+now < +celebrationEnd) {
+      return { phase: 'celebrating', targetDate: occurrence, nextChange: celebrationEnd };
+    }
+    year++;
+  }
+};
+
+export const targetLabel = (target: CountdownTarget, presetLabels: Record<CountdownPreset, string>): string =>
+  target.preset === 'custom' && target.custom
+    ? target.custom.replace('T', ' ')
+    : presetLabels[target.preset];
+
+// URL encoding: ?target=<preset>&tz=<IANA zone>[&at=YYYY-MM-DDTHH:mm]
+export const targetFromSearch = (search: string): CountdownTarget => {
+  const params = new URLSearchParams(search);
+  const preset = params.get('target') as CountdownPreset | null;
+  const timeZone = params.get('tz');
+  const at = params.get('at') ?? undefined;
+
+  const resolved: CountdownTarget = {
+    preset: preset && COUNTDOWN_PRESETS.includes(preset) ? preset : DEFAULT_TARGET.preset,
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TARGET.timeZone,
+  };
+  if (resolved.preset === 'custom') {
+    if (!parseCustom(at)) return { ...resolved, preset: DEFAULT_TARGET.preset };
+    resolved.custom = at;
+  }
+  return resolved;
+};
+
+export const applyTargetToSearch = (search: string, target: CountdownTarget): string => {
+  const params = new URLSearchParams(search);
+  params.set('target', target.preset);
+  params.set('tz', target.timeZone);
+  if (target.preset === 'custom' && target.custom) {
+    params.set('at', target.custom);
+  } else {
+    params.delete('at');
+  }
+  return `?${params.toString()}`;
+};
+
+// Clock options ride along: ?clock=<format>[&tenths=1][&countup=1][&blank=1].
+// Defaults are left out to keep links short.
+const CLOCK_FLAGS = { tenths: 'tenths', countUp: 'countup', blankLeadingZeros: 'blank' } as const;
+
+export const clockDisplayFromSearch = (search: string): ClockDisplay => {
+  const params = new URLSearchParams(search);
+  const format = params.get('clock') as ClockFormat | null;
+  return {
+    format: format && CLOCK_FORMATS.includes(format) ? format : DEFAULT_CLOCK_DISPLAY.format,
+    tenths: params.get(CLOCK_FLAGS.tenths) === '1',
+    countUp: params.get(CLOCK_FLAGS.countUp) === '1',
+    blankLeadingZeros: params.get(CLOCK_FLAGS.blankLeadingZeros) === '1',
+  };
+};
+
+export const applyClockDisplayToSearch = (search: string, display: ClockDisplay): string => {
+  const params = new URLSearchParams(search);
+  if (display.format === DEFAULT_CLOCK_DISPLAY.format) {
+    params.delete('clock');
+  } else {
+    params.set('clock', display.format);
+  }
+  for (const key of Object.keys(CLOCK_FLAGS) as (keyof typeof CLOCK_FLAGS)[]) {
+    if (display[key]) {
+      params.set(CLOCK_FLAGS[key], '1');
+    } else {
+      params.delete(CLOCK_FLAGS[key]);
+    }
+  }
+  return `?${params.toString()}`;
+};
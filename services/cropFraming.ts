@@ -0,0 +1,61 @@
+import { MAX_OUTPUT_HEIGHT, OUTPUT_ASPECT } from "./uploadPipeline";
+
+// How the source sits behind the 3:4 crop window. Offsets are in units of
+// the window's width so the framing survives the editor being resized.
+export interface CropFraming {
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+  // Clockwise degrees
+  rotation: 0 | 90 | 180 | 270;
+}
+
+export const DEFAULT_FRAMING: CropFraming = { zoom: 1, offsetX: 0, offsetY: 0, rotation: 0 };
+export const MAX_CROP_ZOOM = 4;
+
+// Window height in window-width units
+const WINDOW_HEIGHT = 1 / OUTPUT_ASPECT;
+
+const rotatedSize = (width: number, height: number, rotation: number) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+// Window-width units per source pixel; zoom 1 just covers the window
+export const framingScale = (width: number, height: number, { zoom, rotation }: CropFraming): number => {
+  const rotated = rotatedSize(width, height, rotation);
+  return Math.max(1 / rotated.width, WINDOW_HEIGHT / rotated.height) * zoom;
+};
+
+// Keep the image covering the whole window
+export const clampFraming = (width: number, height: number, framing: CropFraming): CropFraming => {
+  const zoom = Math.min(MAX_CROP_ZOOM, Math.max(1, framing.zoom));
+  const rotated = rotatedSize(width, height, framing.rotation);
+  const scale = framingScale(width, height, { ...framing, zoom });
+  const maxX = Math.max(0, (rotated.width * scale - 1) / 2);
+  const maxY = Math.max(0, (rotated.height * scale - WINDOW_HEIGHT) / 2);
+  return {
+    ...framing,
+    zoom,
+    offsetX: Math.min(maxX, Math.max(-maxX, framing.offsetX)),
+    offsetY: Math.min(maxY, Math.max(-maxY, framing.offsetY)),
+  };
+};
+
+// Render what's inside the window at the source's native resolution
+export const renderCrop = (img: HTMLImageElement, framing: CropFraming): string => {
+  const { naturalWidth: width, naturalHeight: height } = img;
+  const scale = framingScale(width, height, framing);
+  const outputWidth = Math.round(Math.min(MAX_OUTPUT_HEIGHT * OUTPUT_ASPECT, 1 / scale));
+  const outputHeight = Math.round(outputWidth * WINDOW_HEIGHT);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outputWidth;
+  canvas.height = outputHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not supported.");
+
+  ctx.translate(outputWidth / 2 + framing.offsetX * outputWidth, outputHeight / 2 + framing.offsetY * outputWidth);
+  ctx.rotate((framing.rotation * Math.PI) / 180);
+  ctx.scale(scale * outputWidth, scale * outputWidth);
+  ctx.drawImage(img, -width / 2, -height / 2);
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
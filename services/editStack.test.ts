@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appliedInstructions,
+  canRedo,
+  canUndo,
+  createEditStack,
+  currentVersion,
+  previousVersion,
+  pushEdit,
+  redoEdit,
+  selectVersion,
+  undoEdit,
+} from './editStack';
+
+const urls = (stack: ReturnType<typeof createEditStack>) => stack.versions.map(version => version.imageUrl);
+
+describe('editStack', () => {
+  it('starts with the original and nothing to undo or compare', () => {
+    const stack = createEditStack('original');
+    expect(currentVersion(stack)).toMatchObject({ imageUrl: 'original', instruction: null });
+    expect(previousVersion(stack)).toBeNull();
+    expect(canUndo(stack)).toBe(false);
+    expect(canRedo(stack)).toBe(false);
+    expect(appliedInstructions(stack)).toEqual([]);
+  });
+
+  it('moves back and forward through edits', () => {
+    let stack = pushEdit(pushEdit(createEditStack('a'), 'b', 'night'), 'c', 'snow');
+    expect(previousVersion(stack)?.imageUrl).toBe('b');
+    expect(appliedInstructions(stack)).toEqual(['night', 'snow']);
+
+    stack = undoEdit(stack);
+    expect(currentVersion(stack).imageUrl).toBe('b');
+    expect(canRedo(stack)).toBe(true);
+    expect(appliedInstructions(stack)).toEqual(['night']);
+
+    stack = redoEdit(stack);
+    expect(currentVersion(stack).imageUrl).toBe('c');
+  });
+
+  it('drops the redo branch when editing from an earlier version', () => {
+    let stack = pushEdit(pushEdit(createEditStack('a'), 'b', 'night'), 'c', 'snow');
+    stack = pushEdit(undoEdit(stack), 'd', 'remove the second person');
+    expect(urls(stack)).toEqual(['a', 'b', 'd']);
+    expect(canRedo(stack)).toBe(false);
+    expect(appliedInstructions(stack)).toEqual(['night', 'remove the second person']);
+  });
+
+  it('ignores moves past either end', () => {
+    const stack = pushEdit(createEditStack('a'), 'b', 'night');
+    expect(redoEdit(stack)).toBe(stack);
+    const original = undoEdit(stack);
+    expect(undoEdit(original)).toBe(original);
+    expect(selectVersion(stack, 5)).toBe(stack);
+    expect(selectVersion(stack, -1)).toBe(stack);
+  });
+
+  it('jumps straight to any version and keeps the later ones', () => {
+    const stack = selectVersion(pushEdit(pushEdit(createEditStack('a'), 'b', 'night'), 'c', 'snow'), 0);
+    expect(currentVersion(stack).imageUrl).toBe('a');
+    expect(urls(stack)).toEqual(['a', 'b', 'c']);
+    expect(appliedInstructions(stack)).toEqual([]);
+  });
+
+  it('gives every version its own id', () => {
+    const stack = pushEdit(pushEdit(createEditStack('a'), 'a', 'same'), 'a', 'again');
+    expect(new Set(stack.versions.map(version => version.id)).size).toBe(3);
+  });
+});
@@ -0,0 +1,41 @@
+import { PosterVersion } from "../types";
+
+// Versions of one generated poster, oldest first, and which one is showing.
+// Undo and redo move `index`; a new edit drops anything after it.
+export interface EditStack {
+  versions: PosterVersion[];
+  index: number;
+}
+
+export const createEditStack = (imageUrl: string): EditStack => ({
+  versions: [{ id: crypto.randomUUID(), imageUrl, instruction: null }],
+  index: 0,
+});
+
+export const pushEdit = (stack: EditStack, imageUrl: string, instruction: string): EditStack => ({
+  versions: [...stack.versions.slice(0, stack.index + 1), { id: crypto.randomUUID(), imageUrl, instruction }],
+  index: stack.index + 1,
+});
+
+export const canUndo = (stack: EditStack) => stack.index > 0;
+export const canRedo = (stack: EditStack) => stack.index < stack.versions.length - 1;
+
+export const undoEdit = (stack: EditStack): EditStack => (canUndo(stack) ? { ...stack, index: stack.index - 1 } : stack);
+export const redoEdit = (stack: EditStack): EditStack => (canRedo(stack) ? { ...stack, index: stack.index + 1 } : stack);
+
+// Jump straight to a version from the list; like undo, later ones are kept
+export const selectVersion = (stack: EditStack, index: number): EditStack =>
+  index >= 0 && index < stack.versions.length ? { ...stack, index } : stack;
+
+export const currentVersion = (stack: EditStack): PosterVersion => stack.versions[stack.index];
+
+// What the current version is compared against; null for the original
+export const previousVersion = (stack: EditStack): PosterVersion | null => stack.versions[stack.index - 1] ?? null;
+
+// Instructions that produced the current version, oldest first, sent as
+// context with the next edit
+export const appliedInstructions = (stack: EditStack): string[] =>
+  stack.versions
+    .slice(1, stack.index + 1)
+    .map(version => version.instruction)
+    .filter((instruction): instruction is string => instruction !== null);
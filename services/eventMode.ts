@@ -0,0 +1,25 @@
+// Event mode is for shared devices (photo booths, parties). It is baked in at
+// build time from the EVENT_IDLE_SECONDS env var (see vite.config.ts): after
+// that long without input the session wipes itself. Unset or 0 turns it off.
+const idleSeconds = Number(process.env.EVENT_IDLE_SECONDS) || 0;
+
+export const EVENT_IDLE_MS = Math.max(0, idleSeconds) * 1000;
+export const isEventMode = EVENT_IDLE_MS > 0;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel'] as const;
+
+// Calls `onIdle` once `timeoutMs` passes without input; any input restarts
+// the wait. Returns a function that stops watching.
+export const watchIdle = (timeoutMs: number, onIdle: () => void): (() => void) => {
+  let timer = setTimeout(onIdle, timeoutMs);
+  const restart = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onIdle, timeoutMs);
+  };
+
+  ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, restart, { passive: true }));
+  return () => {
+    clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, restart));
+  };
+};
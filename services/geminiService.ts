@@ -1,162 +1,171 @@
-import { GoogleGenAI } from "@google/genai";
-import { ThemeMode } from "../types";
-
-// Helper to resize image to reduce payload size and ensure compatibility
-const resizeImage = (base64Str: string, maxWidth = 1024): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.src = base64Str;
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      let width = img.width;
-      let height = img.height;
-
-      if (width > maxWidth) {
-        height *= maxWidth / width;
-        width = maxWidth;
-      }
+import { ApiError, Content, FinishReason, GenerateContentResponse, GoogleGenAI, HarmBlockThreshold, HarmCategory } from "@google/genai";
+import { GenerationErrorKind, ThemeMode } from "../types";
+import { MAX_EDIT_HISTORY, buildEditPrompt, buildPrompt } from "./promptBuilder";
+import { GenerationError, kindFromStatus, toGenerationError } from "./generationErrors";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image';
+
+const SAFETY_FINISH_REASONS = new Set<FinishReason>([
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+]);
+
+interface GeminiOptions {
+  apiKey?: string;
+  model?: string;
+  signal?: AbortSignal;
+  // Untrusted; validated by the prompt builder
+  briefing?: unknown;
+  locale?: unknown;
+}
+
+interface GeminiEditOptions extends Omit<GeminiOptions, 'briefing'> {
+  // Earlier instructions in the session, oldest first; validated by the server
+  history?: string[];
+}
+
+const SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+];
+
+// Splits a data URL into the inline part Gemini expects
+const toInlinePart = (dataUrl: string) => {
+  // Extract correct MIME type from the Data URL
+  const mimeMatch = dataUrl.match(/^data:([^;]+);base64,/);
+  const mimeType = mimeMatch ? mimeMatch[1] : 'image/jpeg';
+
+  // Robustly extract base64 data
+  const data = dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+
+  return { inlineData: { mimeType, data } };
+};
+
+// Pull the image out of a response, or explain why there isn't one
+const imageFromResponse = (response: GenerateContentResponse): string => {
+  // 1. Check for a prompt-level block before any candidate is produced
+  if (response.promptFeedback?.blockReason) {
+      throw new GenerationError(GenerationErrorKind.SAFETY_BLOCK, `Prompt blocked: ${response.promptFeedback.blockReason}`);
+  }
+
+  const candidate = response.candidates?.[0];
 
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(img, 0, 0, width, height);
-        // Convert to efficient JPEG to ensure small payload
-        resolve(canvas.toDataURL('image/jpeg', 0.8));
-      } else {
-        resolve(base64Str);
+  // 2. Check for blocking/safety issues at the candidate level
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.has(candidate.finishReason)) {
+      throw new GenerationError(GenerationErrorKind.SAFETY_BLOCK, `Candidate blocked: ${candidate.finishReason}`);
+  }
+  if (candidate?.finishReason === FinishReason.OTHER) {
+      throw new GenerationError(GenerationErrorKind.UNKNOWN, "Model processing error (finishReason OTHER).", { noImage: true });
+  }
+
+  // 3. Check for inline data (image)
+  for (const part of candidate?.content?.parts || []) {
+      if (part.inlineData) {
+          return `data:image/png;base64,${part.inlineData.data}`;
       }
-    };
-    img.onerror = () => {
-      console.warn("Image resize failed, using original.");
-      resolve(base64Str); // Fallback to original if load fails
-    };
-  });
+  }
+
+  // 4. Text instead of an image means the model declined or explained itself
+  const textOutput = candidate?.content?.parts?.find(p => p.text)?.text;
+  if (textOutput) {
+      console.warn("Gemini returned text instead of image:", textOutput);
+      throw new GenerationError(GenerationErrorKind.MODEL_REFUSAL, `Model Response: ${textOutput.substring(0, 100)}`, { noImage: true });
+  }
+
+  // 5. Fallback if candidate exists but no parts found
+  throw new GenerationError(GenerationErrorKind.UNKNOWN, "No image data received from model.", { noImage: true });
 };
 
-export const generateCharacterImage = async (base64Image: string, mode: ThemeMode): Promise<string> => {
-  try {
-    // Resize image first to avoid payload limits (critical for mobile uploads)
-    const resizedBase64 = await resizeImage(base64Image);
+const toGeminiError = (error: unknown, signal?: AbortSignal): unknown => {
+  // Cancellation is not a failure; hand the abort reason straight back
+  if (signal?.aborted) return signal.reason;
 
+  console.error("Gemini Generation Error:", error);
+
+  if (error instanceof ApiError) {
+      return new GenerationError(kindFromStatus(error.status), error.message, { cause: error });
+  }
+  return toGenerationError(error);
+};
+
+// Runs server-side only (see server/index.ts) so the API key never reaches
+// the browser. Expects images the client has already resized; more than one
+// is a group protocol and uses the theme's ensemble prompt template.
+export const generateWithGemini = async (
+  resizedImages: string[],
+  mode: ThemeMode,
+  { apiKey, model = DEFAULT_GEMINI_MODEL, signal, briefing, locale }: GeminiOptions
+): Promise<string> => {
+  try {
     // Initialize client inside function to ensure API key availability
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    // Extract correct MIME type from the Data URL
-    const mimeMatch = resizedBase64.match(/^data:([^;]+);base64,/);
-    const mimeType = mimeMatch ? mimeMatch[1] : 'image/jpeg';
-
-    // Robustly extract base64 data
-    const cleanBase64 = resizedBase64.includes(',') ? resizedBase64.split(',')[1] : resizedBase64;
-
-    const model = 'gemini-2.5-flash-image';
-    
-    let prompt = '';
-
-    if (mode === '24') {
-      prompt = `
-        Create a cinematic DVD cover art in the style of the TV show "24", featuring the person from the input image as a special agent.
-        
-        Visual Style Requirements:
-        - Color Grading: Cool blue/cyan and black, high contrast, gritty texture.
-        - Aesthetics: Digital noise, scanlines, split-screen composition elements.
-        - Subject: The person should look intense, focused, and ready for action.
-        - Overlay: Include a digital clock reading 23:59:59 in the background.
-        
-        Ensure the output is a high-quality, realistic image.
-      `;
-    } else {
-      prompt = `
-        Create a movie poster featuring the person from the input image dressed as a Christmas Elf (Buddy the Elf style).
-        
-        Visual Style Requirements:
-        - Costume: Green tunic with white fur collar, yellow tights.
-        - Background: A magical, snowy North Pole workshop or cityscape.
-        - Atmosphere: Bright, joyful, high-key lighting, festive colors (Green, Red, Gold).
-        - Expression: Cheerful and full of Christmas spirit.
-        
-        Ensure the output is a high-quality, realistic image.
-      `;
-    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    const prompt = buildPrompt(mode, briefing, { group: resizedImages.length > 1, locale });
 
     const response = await ai.models.generateContent({
       model: model,
       contents: {
         parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: cleanBase64
-            }
-          },
+          ...resizedImages.map(toInlinePart),
           {
             text: prompt
           }
         ]
       },
       config: {
+        abortSignal: signal,
         imageConfig: {
             aspectRatio: '3:4'
         },
-        safetySettings: [
-          { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
-        ]
+        safetySettings: SAFETY_SETTINGS
+      }
+    });
+
+    return imageFromResponse(response);
+  } catch (error) {
+    throw toGeminiError(error, signal);
+  }
+};
+
+// A follow-up edit to a generated poster. Earlier instructions go in as
+// prior turns so the model knows what has already been changed; only the
+// current image is sent, which keeps the request under the body size cap.
+export const editWithGemini = async (
+  resizedImage: string,
+  instruction: string,
+  mode: ThemeMode,
+  { apiKey, model = DEFAULT_GEMINI_MODEL, signal, history = [], locale }: GeminiEditOptions
+): Promise<string> => {
+  try {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const earlierTurns: Content[] = history.slice(-MAX_EDIT_HISTORY).flatMap(earlier => [
+      { role: 'user', parts: [{ text: buildEditPrompt(mode, earlier) }] },
+      { role: 'model', parts: [{ text: 'Edit applied.' }] },
+    ]);
+
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: [
+        ...earlierTurns,
+        { role: 'user', parts: [toInlinePart(resizedImage), { text: buildEditPrompt(mode, instruction, { locale }) }] },
+      ],
+      config: {
+        abortSignal: signal,
+        imageConfig: {
+            aspectRatio: '3:4'
+        },
+        safetySettings: SAFETY_SETTINGS
       }
     });
 
-    const candidate = response.candidates?.[0];
-
-    // 1. Check for blocking/safety issues at the candidate level
-    if (candidate?.finishReason === 'SAFETY') {
-        throw new Error("Security Protocol Engaged: Image content flagged by safety filters. Please try a different photo.");
-    }
-    if (candidate?.finishReason === 'OTHER') {
-        throw new Error("Protocol Failed: Model processing error. Try reducing image complexity.");
-    }
-
-    // 2. Check for inline data (image)
-    for (const part of candidate?.content?.parts || []) {
-        if (part.inlineData) {
-            return `data:image/png;base64,${part.inlineData.data}`;
-        }
-    }
-
-    // 3. Check for text refusal/explanation
-    const textOutput = candidate?.content?.parts?.find(p => p.text)?.text;
-    if (textOutput) {
-        console.warn("Gemini returned text instead of image:", textOutput);
-        if (textOutput.toLowerCase().includes("sorry") || textOutput.toLowerCase().includes("cannot")) {
-             throw new Error("Request Denied: The model refused the prompt. Try a clearer face photo.");
-        }
-        throw new Error(`Model Response: ${textOutput.substring(0, 100)}...`);
-    }
-
-    // 4. Fallback if candidate exists but no parts found
-    throw new Error("Transmission Incomplete: No image data received from satellite.");
-
-  } catch (error: any) {
-    console.error("Gemini Generation Error:", error);
-    
-    // Convert API errors into user-friendly protocol messages
-    const msg = error.toString();
-    
-    if (msg.includes("403")) {
-        throw new Error("Access Denied: API Key invalid or expired.");
-    }
-    if (msg.includes("503")) {
-        throw new Error("Network Congestion: CTU Servers overloaded. Please retry.");
-    }
-    if (msg.includes("400")) {
-        throw new Error("Data Corruption: Invalid image format or prompt rejected.");
-    }
-    // Return the specific error message if we already threw it above, otherwise generic
-    if (error instanceof Error) {
-        return Promise.reject(error); // Pass the specific error up
-    }
-    
-    throw new Error("System Failure: Unknown error occurred during generation.");
+    return imageFromResponse(response);
+  } catch (error) {
+    throw toGeminiError(error, signal);
   }
-};
\ No newline at end of file
+};
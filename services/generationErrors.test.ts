@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { GenerationError, deserializeGenerationError, isModelOutputFailure, kindFromStatus, serializeGenerationError, toGenerationError } from './generationErrors';
+import { GenerationErrorKind } from '../types';
+
+describe('isModelOutputFailure', () => {
+  it('accepts refusals and empty model responses only', () => {
+    expect(isModelOutputFailure(new GenerationError(GenerationErrorKind.MODEL_REFUSAL, 'text'))).toBe(true);
+    expect(isModelOutputFailure(new GenerationError(GenerationErrorKind.UNKNOWN, 'empty', { noImage: true }))).toBe(true);
+    expect(isModelOutputFailure(new GenerationError(GenerationErrorKind.UNKNOWN, 'crashed'))).toBe(false);
+    for (const kind of [GenerationErrorKind.AUTH, GenerationErrorKind.SAFETY_BLOCK, GenerationErrorKind.OVERLOADED, GenerationErrorKind.BAD_INPUT]) {
+      expect(isModelOutputFailure(new GenerationError(kind, 'no'))).toBe(false);
+    }
+  });
+
+  it('survives the trip through the server', () => {
+    const wire = JSON.parse(JSON.stringify(serializeGenerationError(new GenerationError(GenerationErrorKind.UNKNOWN, 'empty', { noImage: true }))));
+    expect(isModelOutputFailure(deserializeGenerationError(wire, 500))).toBe(true);
+    expect(isModelOutputFailure(deserializeGenerationError({ kind: GenerationErrorKind.UNKNOWN }, 500))).toBe(false);
+  });
+});
+
+describe('retryable', () => {
+  it('retries transient kinds but not unclassified failures', () => {
+    expect(new GenerationError(GenerationErrorKind.OVERLOADED, 'busy').retryable).toBe(true);
+    expect(new GenerationError(GenerationErrorKind.UNKNOWN, 'huh').retryable).toBe(false);
+    expect(new GenerationError(GenerationErrorKind.UNKNOWN, 'huh', { retryable: true }).retryable).toBe(true);
+  });
+
+  it('classifies request timeouts as transient', () => {
+    expect(kindFromStatus(408)).toBe(GenerationErrorKind.TIMEOUT);
+    expect(kindFromStatus(418)).toBe(GenerationErrorKind.UNKNOWN);
+  });
+
+  it('treats failed fetches as network errors and other TypeErrors as bugs', () => {
+    for (const message of ['Failed to fetch', 'fetch failed', 'NetworkError when attempting to fetch resource.', 'Load failed']) {
+      expect(toGenerationError(new TypeError(message))).toMatchObject({ kind: GenerationErrorKind.NETWORK, retryable: true });
+    }
+    expect(toGenerationError(new TypeError("Cannot read properties of undefined (reading 'parts')"))).toMatchObject({ kind: GenerationErrorKind.UNKNOWN, retryable: false });
+  });
+});
@@ -0,0 +1,81 @@
+import { GenerationErrorKind } from "../types";
+
+// Kinds worth trying again without changing the input. UNKNOWN is not one:
+// an unclassified failure is as likely a bug as a blip, and every retry is
+// another paid call. Classify transient failures as one of these instead.
+const RETRYABLE_KINDS = new Set<GenerationErrorKind>([
+  GenerationErrorKind.OVERLOADED,
+  GenerationErrorKind.NETWORK,
+  GenerationErrorKind.TIMEOUT,
+]);
+
+// Provider-agnostic failure. `message` is for logs; user-facing copy is
+// resolved per theme from `kind` in the UI layer.
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+  // The model answered but sent back no image (as opposed to the request
+  // being rejected before it ran)
+  readonly noImage: boolean;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { cause?: unknown; retryable?: boolean; noImage?: boolean } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? RETRYABLE_KINDS.has(kind);
+    this.noImage = options.noImage ?? false;
+  }
+}
+
+// Failures in what the model produced, rather than in the request. Only
+// these are worth retrying a different way, e.g. one subject at a time.
+export const isModelOutputFailure = (error: GenerationError): boolean =>
+  error.kind === GenerationErrorKind.MODEL_REFUSAL || (error.kind === GenerationErrorKind.UNKNOWN && error.noImage);
+
+// Map an HTTP status from a provider API onto the taxonomy
+export const kindFromStatus = (status: number): GenerationErrorKind => {
+  if (status === 401 || status === 403) return GenerationErrorKind.AUTH;
+  if (status === 408) return GenerationErrorKind.TIMEOUT;
+  if (status === 429 || status >= 500) return GenerationErrorKind.OVERLOADED;
+  if (status === 400 || status === 413 || status === 415) return GenerationErrorKind.BAD_INPUT;
+  return GenerationErrorKind.UNKNOWN;
+};
+
+// Chrome and Node say "Failed to fetch" / "fetch failed", Firefox "NetworkError
+// when attempting to fetch resource.", Safari "Load failed"
+const isFetchFailure = (error: unknown): boolean =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+// Normalise anything thrown during generation into a GenerationError
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  // fetch() rejects with a TypeError when the request never reaches the
+  // server; other TypeErrors are bugs and stay UNKNOWN
+  if (isFetchFailure(error) || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new GenerationError(GenerationErrorKind.NETWORK, "Network request failed.", { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new GenerationError(GenerationErrorKind.UNKNOWN, message, { cause: error });
+};
+
+// Wire format used by the /api/generate route
+export interface SerializedGenerationError {
+  kind: GenerationErrorKind;
+  message: string;
+  retryable: boolean;
+  noImage?: boolean;
+}
+
+export const serializeGenerationError = ({ kind, message, retryable, noImage }: GenerationError): SerializedGenerationError => ({
+  kind,
+  message,
+  retryable,
+  noImage,
+});
+
+export const deserializeGenerationError = (data: Partial<SerializedGenerationError> | undefined, fallbackStatus: number): GenerationError => {
+  const kind = data?.kind && Object.values(GenerationErrorKind).includes(data.kind) ? data.kind : kindFromStatus(fallbackStatus);
+  return new GenerationError(kind, data?.message || `Server responded with ${fallbackStatus}.`, { retryable: data?.retryable, noImage: data?.noImage === true });
+};
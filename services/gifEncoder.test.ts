@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { createGifEncoder } from './gifEncoder';
+
+// Frames are only read for their pixels, so a plain object stands in for ImageData
+const frame = (width: number, height: number, pixel: (p: number) => [number, number, number]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) data.set([...pixel(p), 255], p * 4);
+  return { data, width, height } as ImageData;
+};
+
+// Colour cube index the encoder should pick for a pixel
+const cubeIndex = ([r, g, b]: [number, number, number]) =>
+  Math.round(r * 5 / 255) * 42 + Math.round(g * 6 / 255) * 6 + Math.round(b * 5 / 255);
+
+// Reference GIF LZW decoder (variable code width, early change, clear codes)
+const lzwDecode = (bytes: number[], minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: eoiCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+
+  const out: number[] = [];
+  let previous: number[] | null = null;
+  let bit = 0;
+  reset();
+  for (;;) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((bytes[bit >> 3] >> (bit & 7)) & 1) << i;
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === eoiCode) return out;
+
+    const entry = code < table.length ? table[code] : [...previous!, previous![0]];
+    out.push(...entry);
+    if (previous && table.length < 4096) table.push([...previous, entry[0]]);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+};
+
+interface DecodedGif {
+  width: number;
+  height: number;
+  loops: boolean;
+  frames: { delayCs: number; indices: number[] }[];
+}
+
+const decodeGif = (bytes: Uint8Array): DecodedGif => {
+  const text = (at: number, length: number) => String.fromCharCode(...bytes.subarray(at, at + length));
+  const word = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+  expect(text(0, 6)).toBe('GIF89a');
+  const gif: DecodedGif = { width: word(6), height: word(8), loops: false, frames: [] };
+
+  let at = 13 + 256 * 3;
+  let delayCs = 0;
+  for (;;) {
+    const introducer = bytes[at];
+    if (introducer === 0x3b) return gif;
+    if (introducer === 0x21) {
+      const label = bytes[at + 1];
+      if (label === 0xff) gif.loops = text(at + 3, 11) === 'NETSCAPE2.0';
+      if (label === 0xf9) delayCs = word(at + 4);
+      at += 2;
+      while (bytes[at] !== 0) at += bytes[at] + 1;
+      at++;
+      continue;
+    }
+    expect(introducer).toBe(0x2c);
+    const minCodeSize = bytes[at + 10];
+    at += 11;
+    const data: number[] = [];
+    while (bytes[at] !== 0) {
+      data.push(...bytes.subarray(at + 1, at + 1 + bytes[at]));
+      at += bytes[at] + 1;
+    }
+    at++;
+    gif.frames.push({ delayCs, indices: lzwDecode(data, minCodeSize) });
+  }
+};
+
+const encode = async (frames: ImageData[], delayCs = 10) => {
+  const { width, height } = frames[0];
+  const encoder = createGifEncoder(width, height, delayCs);
+  frames.forEach(encoder.addFrame);
+  const blob = encoder.finish();
+  expect(blob.type).toBe('image/gif');
+  return decodeGif(new Uint8Array(await blob.arrayBuffer()));
+};
+
+describe('createGifEncoder', () => {
+  it('writes a looping GIF89a with every frame and its delay', async () => {
+    const gif = await encode([frame(3, 2, () => [0, 0, 0]), frame(3, 2, () => [255, 255, 255])], 7);
+    expect(gif).toMatchObject({ width: 3, height: 2, loops: true });
+    expect(gif.frames.map(({ delayCs }) => delayCs)).toEqual([7, 7]);
+    expect(gif.frames[0].indices).toEqual(new Array(6).fill(0));
+    expect(gif.frames[1].indices).toEqual(new Array(6).fill(251));
+  });
+
+  it('quantises to the nearest colour in the cube', async () => {
+    const colours: [number, number, number][] = [[255, 0, 0], [0, 128, 0], [30, 200, 240], [128, 128, 128]];
+    const gif = await encode([frame(2, 2, p => colours[p])]);
+    expect(gif.frames[0].indices).toEqual(colours.map(cubeIndex));
+  });
+
+  it('round-trips long, varied frames across code width changes and table resets', async () => {
+    // Pseudo-random noise fills the 4096-entry table several times over
+    let seed = 1;
+    const noise = (): [number, number, number] => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return [seed & 0xff, (seed >> 8) & 0xff, (seed >> 16) & 0xff];
+    };
+    const pixels = Array.from({ length: 120 * 100 }, noise);
+    const gif = await encode([frame(120, 100, p => pixels[p])]);
+    expect(gif.frames[0].indices).toEqual(pixels.map(cubeIndex));
+  });
+});
@@ -0,0 +1,132 @@
+// Minimal animated GIF89a encoder. Frames are quantised to a fixed 6x7x6
+// colour cube, which keeps encoding single-pass and allocation-light.
+
+const MAX_CODES = 4096;
+const MIN_CODE_SIZE = 8;
+
+// 6 levels of red, 7 of green, 6 of blue = 252 colours, padded to 256
+const PALETTE = (() => {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 7; g++) {
+      for (let b = 0; b < 6; b++) {
+        palette[i++] = Math.round(r * 255 / 5);
+        palette[i++] = Math.round(g * 255 / 6);
+        palette[i++] = Math.round(b * 255 / 5);
+      }
+    }
+  }
+  return palette;
+})();
+
+const quantise = ({ data, width, height }: ImageData): Uint8Array => {
+  const indices = new Uint8Array(width * height);
+  for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+    const r = Math.round(data[i] * 5 / 255);
+    const g = Math.round(data[i + 1] * 6 / 255);
+    const b = Math.round(data[i + 2] * 5 / 255);
+    indices[p] = r * 42 + g * 6 + b;
+  }
+  return indices;
+};
+
+// Variable-width LZW as specified for GIF image data
+const lzwEncode = (indices: Uint8Array): number[] => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const eoiCode = clearCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = eoiCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoiCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return out;
+};
+
+const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// Split image data into length-prefixed sub-blocks of at most 255 bytes
+const subBlocks = (data: number[]): number[] => {
+  const out: number[] = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.slice(i, i + 255);
+    out.push(block.length, ...block);
+  }
+  out.push(0);
+  return out;
+};
+
+export interface GifEncoder {
+  addFrame: (frame: ImageData) => void;
+  finish: () => Blob;
+}
+
+// `delayCs` is the per-frame delay in hundredths of a second
+export const createGifEncoder = (width: number, height: number, delayCs: number): GifEncoder => {
+  const chunks: Uint8Array[] = [];
+
+  chunks.push(Uint8Array.from([
+    ...ascii('GIF89a'),
+    ...word(width), ...word(height),
+    // Global colour table present, 8-bit colour resolution, 256 entries
+    0xf7, 0, 0,
+  ]));
+  chunks.push(PALETTE);
+  // Loop forever
+  chunks.push(Uint8Array.from([0x21, 0xff, 0x0b, ...ascii('NETSCAPE2.0'), 0x03, 0x01, ...word(0), 0x00]));
+
+  const addFrame = (frame: ImageData) => {
+    const data = lzwEncode(quantise(frame));
+    chunks.push(Uint8Array.from([
+      // Graphic control extension (frame delay)
+      0x21, 0xf9, 0x04, 0x00, ...word(delayCs), 0x00, 0x00,
+      // Image descriptor: full frame, no local colour table
+      0x2c, ...word(0), ...word(0), ...word(width), ...word(height), 0x00,
+      MIN_CODE_SIZE,
+      ...subBlocks(data),
+    ]));
+  };
+
+  const finish = () => new Blob([...chunks, Uint8Array.from([0x3b])], { type: 'image/gif' });
+
+  return { addFrame, finish };
+};
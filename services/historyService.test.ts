@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { evictionCandidates } from './historyService';
+
+const records = (...sizes: number[]) => sizes.map((size, index) => ({ id: `r${index}`, size }));
+
+describe('evictionCandidates', () => {
+  it('keeps everything while the total fits', () => {
+    expect(evictionCandidates(records(10, 20, 30), 60)).toEqual([]);
+    expect(evictionCandidates([], 0)).toEqual([]);
+  });
+
+  it('drops the oldest records first, only as many as needed', () => {
+    expect(evictionCandidates(records(10, 20, 30), 59)).toEqual(['r0']);
+    expect(evictionCandidates(records(10, 20, 30), 30)).toEqual(['r0', 'r1']);
+  });
+
+  it('always keeps the newest record, even if it alone is over the quota', () => {
+    expect(evictionCandidates(records(10, 20, 100), 50)).toEqual(['r0', 'r1']);
+    expect(evictionCandidates(records(100), 50)).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { GeneratedImage } from "../types";
+
+const DB_NAME = 'christmas-protocol';
+const DB_VERSION = 1;
+const STORE = 'history';
+
+// Oldest records are evicted once the stored total passes this cap
+export const HISTORY_QUOTA_BYTES = 50 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Data URLs are stored as UTF-16 strings, so two bytes per character
+const estimateSize = (...values: string[]) => values.reduce((total, value) => total + value.length * 2, 0);
+
+// Oldest first
+const listAscending = async (): Promise<GeneratedImage[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  return requestResult(tx.objectStore(STORE).index('createdAt').getAll() as IDBRequest<GeneratedImage[]>);
+};
+
+const deleteMany = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// Ids of the oldest records to drop so the total fits under the quota,
+// always keeping the newest one. `records` must be oldest first.
+export const evictionCandidates = (records: Pick<GeneratedImage, 'id' | 'size'>[], quotaBytes: number): string[] => {
+  let total = records.reduce((sum, record) => sum + record.size, 0);
+  const evicted: string[] = [];
+  for (const record of records.slice(0, -1)) {
+    if (total <= quotaBytes) break;
+    total -= record.size;
+    evicted.push(record.id);
+  }
+  return evicted;
+};
+
+const enforceQuota = async (quotaBytes: number) => {
+  await deleteMany(evictionCandidates(await listAscending(), quotaBytes));
+};
+
+// Newest first
+export const listHistory = async (): Promise<GeneratedImage[]> => (await listAscending()).reverse();
+
+export const getHistoryRecord = async (id: string): Promise<GeneratedImage | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  return requestResult(tx.objectStore(STORE).get(id) as IDBRequest<GeneratedImage | undefined>);
+};
+
+export const saveToHistory = async (
+  entry: Omit<GeneratedImage, 'id' | 'createdAt' | 'size'>,
+  quotaBytes = HISTORY_QUOTA_BYTES
+): Promise<GeneratedImage> => {
+  const record: GeneratedImage = {
+    ...entry,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    size: estimateSize(entry.imageUrl, entry.sourceThumbnail, entry.prompt),
+  };
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(record);
+  await transactionDone(tx);
+
+  await enforceQuota(quotaBytes);
+  return record;
+};
+
+export const deleteFromHistory = (id: string): Promise<void> => deleteMany([id]);
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,31 @@
+import { LocaleId } from "../types";
+import { DEFAULT_LOCALE, isLocaleId, matchLocale } from "../locales";
+
+const STORAGE_KEY = 'protocol.locale';
+
+// ?lang= in a shared link wins, then the visitor's last pick, then the
+// browser's language preferences
+export const detectLocale = (search: string, languages: readonly string[] = navigator.languages ?? [navigator.language]): LocaleId => {
+  const requested = new URLSearchParams(search).get('lang');
+  if (isLocaleId(requested)) return requested;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocaleId(stored)) return stored;
+  } catch {
+    // Storage unavailable; fall through to the browser's preference
+  }
+  return matchLocale(languages) ?? DEFAULT_LOCALE;
+};
+
+export const storeLocale = (locale: LocaleId) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage can be unavailable (private mode, quota); the pick just won't persist
+  }
+};
+
+// Fill `{name}` placeholders in a catalogue message
+export const formatMessage = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder));
@@ -0,0 +1,81 @@
+import { BriefingValues, EditOptions, ImageGenerationProvider, ImageProviderId, LocaleId, ThemeMode } from "../types";
+import { RetryOptions, withRetry } from "./retry";
+import { createServerProvider } from "./serverService";
+import { createMockProvider } from "./mockService";
+import { runWithConcurrency } from "./concurrency";
+import { composeTeamPoster } from "./teamPoster";
+import { isModelOutputFailure, toGenerationError } from "./generationErrors";
+
+// Provider selection is baked in at build time from the IMAGE_PROVIDER env var
+// (see vite.config.ts). Use IMAGE_PROVIDER=mock for CI and offline kiosks.
+const PROVIDER_ID = (process.env.IMAGE_PROVIDER || 'server') as ImageProviderId;
+
+// Portrait requests in flight at once when falling back from a group poster
+const GROUP_FALLBACK_CONCURRENCY = 2;
+
+const PROVIDER_FACTORIES: Record<ImageProviderId, () => ImageGenerationProvider> = {
+  server: () => createServerProvider(),
+  mock: createMockProvider,
+};
+
+let activeProvider: ImageGenerationProvider | null = null;
+
+export const getImageProvider = (): ImageGenerationProvider => {
+  if (!activeProvider) {
+    const factory = PROVIDER_FACTORIES[PROVIDER_ID];
+    if (!factory) {
+      throw new Error(`Unknown image provider "${PROVIDER_ID}". Expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}.`);
+    }
+    activeProvider = factory();
+  }
+  return activeProvider;
+};
+
+interface GenerateCharacterOptions {
+  signal?: AbortSignal;
+  retry?: Partial<RetryOptions>;
+  briefing?: BriefingValues;
+  locale?: LocaleId;
+}
+
+// Transient failures are retried with backoff; aborting `signal` cancels the
+// in-flight attempt and any pending retry.
+export const generateCharacterImage = (base64Image: string, mode: ThemeMode, { signal, retry, briefing, locale }: GenerateCharacterOptions = {}): Promise<string> => {
+  const provider = getImageProvider();
+  return withRetry(attemptSignal => provider.generate(base64Image, mode, { signal: attemptSignal, briefing, locale }), { ...retry, signal });
+};
+
+// Ensemble poster with every subject in one request. If the model can't
+// produce one, each subject is generated on their own and the portraits are
+// laid out on the theme's team grid instead. Any other failure (auth, safety,
+// rate limit, bad input) would only repeat per subject, so it is rethrown.
+export const generateTeamPoster = async (base64Images: string[], mode: ThemeMode, { signal, retry, briefing, locale }: GenerateCharacterOptions = {}): Promise<string> => {
+  const provider = getImageProvider();
+  try {
+    return await withRetry(attemptSignal => provider.generateGroup(base64Images, mode, { signal: attemptSignal, briefing, locale }), { ...retry, signal });
+  } catch (groupError) {
+    if (signal?.aborted || !isModelOutputFailure(toGenerationError(groupError))) throw groupError;
+    console.warn("Group generation failed, compositing individual portraits:", groupError);
+
+    const results = await runWithConcurrency(
+      base64Images.map(image => () => generateCharacterImage(image, mode, { signal, retry, briefing, locale })),
+      GROUP_FALLBACK_CONCURRENCY
+    );
+    // Leaving someone off the team poster is worse than no poster
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) throw failed.reason;
+
+    return composeTeamPoster(results.map(result => (result as PromiseFulfilledResult<string>).value), mode, locale);
+  }
+};
+
+interface EditPosterOptions extends EditOptions {
+  retry?: Partial<RetryOptions>;
+}
+
+// Apply a follow-up instruction to a generated poster, retried like a
+// generation. `history` is the instructions already applied, oldest first.
+export const editPoster = (imageUrl: string, instruction: string, mode: ThemeMode, { signal, retry, history, locale }: EditPosterOptions = {}): Promise<string> => {
+  const provider = getImageProvider();
+  return withRetry(attemptSignal => provider.edit(imageUrl, instruction, mode, { signal: attemptSignal, history, locale }), { ...retry, signal });
+};
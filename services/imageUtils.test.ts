@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { stripJpegMetadata } from './imageUtils';
+import { EOI, SOI, commentSegment, exifSegment, fromDataUrl, jfifSegment, scan, segment, sofSegment, toDataUrl } from './__fixtures__/jpeg';
+
+describe('stripJpegMetadata', () => {
+  it('drops EXIF, IPTC and comments but keeps what decoding needs', () => {
+    const icc = segment(0xe2, [1, 2, 3]);
+    const iptc = segment(0xed, [4, 5, 6]);
+    const adobe = segment(0xee, [7, 8]);
+    const stripped = fromDataUrl(stripJpegMetadata(toDataUrl([
+      ...SOI, ...jfifSegment(), ...exifSegment(6), ...icc, ...iptc, ...commentSegment('GPS'), ...adobe, ...sofSegment(8, 8), ...scan(), ...EOI,
+    ])));
+    expect(stripped).toEqual([...SOI, ...jfifSegment(), ...icc, ...adobe, ...sofSegment(8, 8), ...scan(), ...EOI]);
+  });
+
+  it('leaves the scan data alone, even bytes that look like markers', () => {
+    const bytes = [...SOI, ...scan(), ...exifSegment(3), ...EOI];
+    expect(fromDataUrl(stripJpegMetadata(toDataUrl(bytes)))).toEqual(bytes);
+  });
+
+  it('returns non-JPEG input unchanged', () => {
+    const png = 'data:image/png;base64,iVBORw0KGgo=';
+    expect(stripJpegMetadata(png)).toBe(png);
+    const notReallyJpeg = `data:image/jpeg;base64,${Buffer.from([0x89, 0x50]).toString('base64')}`;
+    expect(stripJpegMetadata(notReallyJpeg)).toBe(notReallyJpeg);
+  });
+
+  it('handles images larger than one base64 chunk', () => {
+    const bytes = [...SOI, ...exifSegment(1), ...sofSegment(8, 8), ...scan(), ...new Array(100_000).fill(0x55), ...EOI];
+    const stripped = fromDataUrl(stripJpegMetadata(toDataUrl(bytes)));
+    expect(stripped.length).toBe(bytes.length - exifSegment(1).length);
+  });
+});
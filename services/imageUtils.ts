@@ -0,0 +1,78 @@
+// Load a data URL (or any image src) into an HTMLImageElement
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image failed to load."));
+    img.src = src;
+  });
+};
+
+// Helper to resize image to reduce payload size and ensure compatibility.
+// Rejects if the image can't be decoded rather than sending it on as-is.
+export const resizeImage = (base64Str: string, maxWidth = 1024): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.src = base64Str;
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      let width = img.width;
+      let height = img.height;
+
+      if (width > maxWidth) {
+        height *= maxWidth / width;
+        width = maxWidth;
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.drawImage(img, 0, 0, width, height);
+        // Convert to efficient JPEG to ensure small payload
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+      } else {
+        resolve(base64Str);
+      }
+    };
+    img.onerror = () => reject(new Error("Image could not be decoded for resizing."));
+  });
+};
+
+// Segments that can identify a person or place: APP1 (EXIF incl. GPS, XMP),
+// APP3-APP13 (IPTC, maker notes), APP15 and comments. APP0 (JFIF), APP2 (ICC
+// profile) and APP14 (Adobe colour transform) are needed to decode correctly.
+const isMetadataSegment = (marker: number) =>
+  marker === 0xe1 || (marker >= 0xe3 && marker <= 0xed) || marker === 0xef || marker === 0xfe;
+
+const BASE64_CHUNK = 0x8000;
+
+// Drop identifying metadata from a JPEG data URL without re-encoding it.
+// Anything that isn't a JPEG data URL is returned unchanged.
+export const stripJpegMetadata = (dataUrl: string): string => {
+  const match = /^data:image\/jpe?g;base64,/i.exec(dataUrl);
+  if (!match) return dataUrl;
+  const binary = atob(dataUrl.slice(match[0].length));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return dataUrl;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: compressed data follows, so keep the rest as-is
+    if (marker === 0xda) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (!isMetadataSegment(marker)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  kept.push(bytes.subarray(offset));
+
+  let output = '';
+  for (const part of kept) {
+    for (let i = 0; i < part.length; i += BASE64_CHUNK) {
+      output += String.fromCharCode(...part.subarray(i, i + BASE64_CHUNK));
+    }
+  }
+  return `data:image/jpeg;base64,${btoa(output)}`;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeKioskConfig } from './kiosk';
+
+describe('normalizeKioskConfig', () => {
+  it('fills in defaults for a missing or malformed file', () => {
+    const defaults = { theme: null, idleSeconds: 90, branding: {}, attract: { samples: [], slideSeconds: 8 }, handoffMinutes: 15 };
+    expect(normalizeKioskConfig(undefined)).toEqual(defaults);
+    expect(normalizeKioskConfig([1, 2])).toEqual(defaults);
+    expect(normalizeKioskConfig({ branding: 'x', attract: null })).toEqual(defaults);
+  });
+
+  it('keeps valid settings', () => {
+    expect(normalizeKioskConfig({
+      theme: 'ELF',
+      idleSeconds: 45,
+      branding: { primary: '  Acme Party ', teamName: 'Night Shift', camLabels: ['DOOR', 'BAR'] },
+      attract: { samples: ['/a.jpg', '/b.jpg'], slideSeconds: 5 },
+      handoffMinutes: 5,
+    })).toEqual({
+      theme: 'ELF',
+      idleSeconds: 45,
+      branding: { primary: 'Acme Party', teamName: 'Night Shift', camLabels: ['DOOR', 'BAR'] },
+      attract: { samples: ['/a.jpg', '/b.jpg'], slideSeconds: 5 },
+      handoffMinutes: 5,
+    });
+  });
+
+  it('drops unknown themes, bad numbers and non-string labels', () => {
+    const config = normalizeKioskConfig({
+      theme: 'constructor',
+      idleSeconds: -5,
+      branding: { primary: '   ', secondary: 7, feedTag: 'LIVE', camLabels: ['', 3, 'CAM 1'], bogus: 'x' },
+      attract: { samples: 'a.jpg', slideSeconds: Infinity },
+    });
+    expect(config).toEqual({
+      theme: null,
+      idleSeconds: 90,
+      branding: { feedTag: 'LIVE', camLabels: ['CAM 1'] },
+      attract: { samples: [], slideSeconds: 8 },
+      handoffMinutes: 15,
+    });
+  });
+});
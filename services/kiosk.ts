@@ -0,0 +1,94 @@
+import { HandoffTicket, KioskConfig, LocaleId, ThemeBranding } from "../types";
+import { isThemeMode } from "../themes";
+
+// Kiosk mode turns the app into a party booth on a shared screen: attract
+// loop, big touch targets, reset after inactivity and QR hand-off. It is on
+// when the server was started with KIOSK_CONFIG pointing at a JSON file.
+
+export const KIOSK_CONFIG_ENDPOINT = '/api/kiosk';
+export const HANDOFF_ENDPOINT = '/api/handoff';
+
+const DEFAULT_IDLE_SECONDS = 90;
+const DEFAULT_SLIDE_SECONDS = 8;
+export const DEFAULT_HANDOFF_MINUTES = 15;
+
+const BRANDING_TEXT = ['primary', 'secondary', 'feedTag', 'feedLocation', 'teamName'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const positive = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+
+// Fill in defaults and drop anything malformed, so a hand-edited file can't
+// break the booth. Used by the server on load and by the client on fetch.
+export const normalizeKioskConfig = (raw: unknown): KioskConfig => {
+  const config = isRecord(raw) ? raw : {};
+  const branding = isRecord(config.branding) ? config.branding : {};
+  const attract = isRecord(config.attract) ? config.attract : {};
+
+  const normalizedBranding: ThemeBranding = {};
+  for (const key of BRANDING_TEXT) {
+    const text = branding[key];
+    if (typeof text === 'string' && text.trim()) normalizedBranding[key] = text.trim();
+  }
+  const camLabels = strings(branding.camLabels);
+  if (camLabels.length > 0) normalizedBranding.camLabels = camLabels;
+
+  return {
+    theme: isThemeMode(config.theme) ? config.theme : null,
+    idleSeconds: positive(config.idleSeconds, DEFAULT_IDLE_SECONDS),
+    branding: normalizedBranding,
+    attract: {
+      samples: strings(attract.samples),
+      slideSeconds: positive(attract.slideSeconds, DEFAULT_SLIDE_SECONDS),
+    },
+    handoffMinutes: positive(config.handoffMinutes, DEFAULT_HANDOFF_MINUTES),
+  };
+};
+
+// Null when kiosk mode is off (no config on the server, or no server at all)
+export const fetchKioskConfig = async (): Promise<KioskConfig | null> => {
+  try {
+    const response = await fetch(KIOSK_CONFIG_ENDPOINT);
+    if (!response.ok) return null;
+    return normalizeKioskConfig(await response.json());
+  } catch {
+    return null;
+  }
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Park a finished poster on the local server and get back the link a phone
+// on the same network can open. Only when the guest asks for it. `locale`
+// is the language of the page the phone opens.
+export const createHandoff = async (poster: Blob, locale: LocaleId, signal?: AbortSignal): Promise<HandoffTicket> => {
+  const response = await fetch(HANDOFF_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ image: await blobToDataUrl(poster), locale }),
+    signal,
+  });
+  const body = await response.json().catch(() => undefined);
+  if (!response.ok || typeof body?.token !== 'string' || typeof body?.url !== 'string' || typeof body?.expiresAt !== 'number') {
+    throw new Error(`Hand-off failed (${response.status}).`);
+  }
+  return { token: body.token, url: body.url, expiresAt: body.expiresAt };
+};
+
+// Take a poster off the server when the session ends, rather than leaving it
+// there until it expires. `keepalive` lets it finish if the page is closing.
+export const deleteHandoff = async (token: string): Promise<void> => {
+  const response = await fetch(`${HANDOFF_ENDPOINT}/${encodeURIComponent(token)}`, { method: 'DELETE', keepalive: true });
+  if (!response.ok) throw new Error(`Hand-off delete failed (${response.status}).`);
+};
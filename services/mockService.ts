@@ -0,0 +1,103 @@
+import { EditOptions, GenerateOptions, GenerationErrorKind, ImageGenerationProvider, ThemeMode } from "../types";
+import { getTheme } from "../themes";
+import { loadImage } from "./imageUtils";
+import { GenerationError } from "./generationErrors";
+import { sleep } from "./retry";
+import { composeTeamPoster } from "./teamPoster";
+
+// Matches the 3:4 aspect ratio requested from the real model
+const OUTPUT_WIDTH = 768;
+const OUTPUT_HEIGHT = 1024;
+
+// Simulated latency so the PROCESSING state is visible offline
+const MOCK_DELAY_MS = 1200;
+
+// Offline stand-in for the model: crops the upload to 3:4 and applies a
+// themed tint, scanlines and a clock stamp on a canvas.
+const generateWithCanvas = async (base64Image: string, mode: ThemeMode, { signal, locale }: GenerateOptions = {}): Promise<string> => {
+  const { offline } = getTheme(mode, locale);
+  const [img] = await Promise.all([
+    loadImage(base64Image).catch(error => {
+      throw new GenerationError(GenerationErrorKind.BAD_INPUT, "Source image could not be decoded.", { cause: error });
+    }),
+    sleep(MOCK_DELAY_MS, signal),
+  ]);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = OUTPUT_WIDTH;
+  canvas.height = OUTPUT_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new GenerationError(GenerationErrorKind.UNKNOWN, "Canvas 2D context is not supported.", { retryable: false });
+  }
+
+  // Cover-fit the source into the frame
+  const scale = Math.max(OUTPUT_WIDTH / img.width, OUTPUT_HEIGHT / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  ctx.drawImage(img, (OUTPUT_WIDTH - drawWidth) / 2, (OUTPUT_HEIGHT - drawHeight) / 2, drawWidth, drawHeight);
+
+  ctx.fillStyle = offline.tint;
+  ctx.fillRect(0, 0, OUTPUT_WIDTH, OUTPUT_HEIGHT);
+
+  if (offline.scanlines) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
+    for (let y = 0; y < OUTPUT_HEIGHT; y += 4) {
+      ctx.fillRect(0, y + 2, OUTPUT_WIDTH, 2);
+    }
+  }
+
+  ctx.font = "bold 96px 'Share Tech Mono', monospace";
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.shadowColor = offline.stampColor;
+  ctx.shadowBlur = 20;
+  ctx.fillStyle = offline.stampColor;
+  ctx.fillText(offline.stampText, OUTPUT_WIDTH / 2, OUTPUT_HEIGHT - 48);
+
+  return canvas.toDataURL('image/png');
+};
+
+// Offline stand-in for a follow-up edit: the same image, tinted once more
+// and captioned with the instruction so each version is visibly different
+const editWithCanvas = async (imageUrl: string, instruction: string, mode: ThemeMode, { signal, locale }: EditOptions = {}): Promise<string> => {
+  const { offline } = getTheme(mode, locale);
+  const [img] = await Promise.all([
+    loadImage(imageUrl).catch(error => {
+      throw new GenerationError(GenerationErrorKind.BAD_INPUT, "Source image could not be decoded.", { cause: error });
+    }),
+    sleep(MOCK_DELAY_MS, signal),
+  ]);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new GenerationError(GenerationErrorKind.UNKNOWN, "Canvas 2D context is not supported.", { retryable: false });
+  }
+
+  ctx.drawImage(img, 0, 0);
+  ctx.fillStyle = offline.tint;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const fontSize = Math.round(canvas.width / 24);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, 0, canvas.width, fontSize * 2);
+  ctx.font = `bold ${fontSize}px 'Share Tech Mono', monospace`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = offline.stampColor;
+  ctx.fillText(instruction.toUpperCase(), canvas.width / 2, fontSize, canvas.width - fontSize * 2);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const createMockProvider = (): ImageGenerationProvider => ({
+  id: 'mock',
+  label: 'Offline Simulator',
+  generate: generateWithCanvas,
+  // Lay the subjects out on the team grid, then give it the same treatment
+  generateGroup: async (base64Images, mode, options) => generateWithCanvas(await composeTeamPoster(base64Images, mode, options?.locale), mode, options),
+  edit: editWithCanvas,
+});
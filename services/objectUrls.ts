@@ -0,0 +1,20 @@
+// Every object URL the app hands out goes through here, so a session wipe
+// can revoke any that are still alive (e.g. a download the browser hasn't
+// picked up yet)
+const live = new Set<string>();
+
+export const createObjectUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  live.add(url);
+  return url;
+};
+
+export const revokeObjectUrl = (url: string) => {
+  live.delete(url);
+  URL.revokeObjectURL(url);
+};
+
+export const revokeAllObjectUrls = () => {
+  live.forEach(url => URL.revokeObjectURL(url));
+  live.clear();
+};
@@ -0,0 +1,227 @@
+import { ClockDisplay, LocaleId, PosterSize, ThemeMode } from "../types";
+import { getTheme } from "../themes";
+import { getLocale } from "../locales";
+import {
+  ClockGroup,
+  DIGIT_VIEWBOX,
+  SEGMENT_PATHS,
+  SEPARATOR_VIEWBOX,
+  SegmentGlyph,
+  clockGroups,
+  clockMilliseconds,
+  glyphSegments,
+  separatorDots,
+} from "../components/sevenSegment";
+import { loadImage } from "./imageUtils";
+import { createObjectUrl, revokeObjectUrl } from "./objectUrls";
+
+export type { PosterSize };
+export type PosterFormat = 'png' | 'jpeg';
+
+// Labels live in the locale catalogues (messages.posterSizes)
+export const POSTER_SIZES: Record<PosterSize, { width: number; height: number }> = {
+  story: { width: 1080, height: 1920 },
+  square: { width: 1080, height: 1080 },
+  wide: { width: 1920, height: 1080 },
+};
+
+const MIME_TYPES: Record<PosterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+};
+
+export interface PosterFrame {
+  image: HTMLImageElement;
+  theme: ThemeMode;
+  locale: LocaleId;
+  // Digit groups as Clock would show them (see clockGroups)
+  clock: ClockGroup[];
+  // Brightened digits, as in Clock's per-second pulse
+  pulse?: boolean;
+  // The bottom tick bar flash that accompanies each second
+  tick?: boolean;
+}
+
+// Built on first draw, so importing this module doesn't need a canvas
+let segmentPath2d: Record<keyof typeof SEGMENT_PATHS, Path2D> | null = null;
+const segmentPaths = () => {
+  segmentPath2d ??= Object.fromEntries(
+    Object.entries(SEGMENT_PATHS).map(([key, d]) => [key, new Path2D(d)])
+  ) as Record<keyof typeof SEGMENT_PATHS, Path2D>;
+  return segmentPath2d;
+};
+
+const drawDigit = (ctx: CanvasRenderingContext2D, glyph: SegmentGlyph, x: number, y: number, height: number, color: string, inactive: string) => {
+  const scale = height / DIGIT_VIEWBOX.height;
+  const active = new Set(glyphSegments(glyph));
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.scale(scale, scale);
+  for (const [key, path] of Object.entries(segmentPaths())) {
+    ctx.fillStyle = active.has(key) ? color : inactive;
+    ctx.fill(path);
+  }
+  ctx.restore();
+};
+
+const drawSeparator = (ctx: CanvasRenderingContext2D, dots: { x: number; y: number; size: number }[], x: number, y: number, height: number, color: string) => {
+  const scale = height / SEPARATOR_VIEWBOX.height;
+  ctx.fillStyle = color;
+  dots.forEach(dot => {
+    ctx.fillRect(x + dot.x * scale, y + dot.y * scale, dot.size * scale, dot.size * scale);
+  });
+};
+
+// Draw the full cinematic view (image, vignette, feed labels and countdown)
+// onto a canvas. Pure with respect to its inputs so animated exports can
+// call it once per frame.
+export const drawPoster = (ctx: CanvasRenderingContext2D, { image, theme, locale, clock, pulse = false, tick = false }: PosterFrame) => {
+  const { width, height } = ctx.canvas;
+  const { poster, overlay, copy } = getTheme(theme, locale);
+  const { dir, messages } = getLocale(locale);
+  ctx.direction = dir;
+  const unit = Math.min(width, height) / 100;
+
+  // Frame + cover-fit image
+  ctx.fillStyle = poster.frame;
+  ctx.fillRect(0, 0, width, height);
+  const scale = Math.max(width / image.width, height / image.height);
+  ctx.drawImage(image, (width - image.width * scale) / 2, (height - image.height * scale) / 2, image.width * scale, image.height * scale);
+
+  // Vignette
+  const vignette = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+  vignette.addColorStop(0.5, 'rgba(0, 0, 0, 0)');
+  vignette.addColorStop(1, 'rgba(0, 0, 0, 0.4)');
+  ctx.fillStyle = vignette;
+  ctx.fillRect(0, 0, width, height);
+
+  // Top-left feed tag
+  const margin = unit * 6;
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  ctx.font = `bold ${unit * 3}px 'Share Tech Mono', monospace`;
+  const tagPadding = unit;
+  const tagWidth = ctx.measureText(overlay.feedTag).width + tagPadding * 2;
+  ctx.fillStyle = poster.feedTagBackground;
+  ctx.fillRect(margin, margin, tagWidth, unit * 3 + tagPadding);
+  ctx.fillStyle = poster.feedTagText;
+  ctx.fillText(overlay.feedTag, margin + tagPadding, margin + tagPadding / 2);
+  ctx.font = `${unit * 2.2}px 'Share Tech Mono', monospace`;
+  ctx.fillStyle = poster.feedLocation;
+  ctx.fillText(overlay.feedLocation, margin, margin + unit * 5);
+
+  // Countdown panel
+  // Long formats (weeks, tenths, 100+ days) shrink to keep within the frame
+  const digitCount = clock.reduce((count, group) => count + group.glyphs.length, 0);
+  const digitHeight = unit * 12 * Math.min(1, 8 / digitCount);
+  const digitWidth = digitHeight * DIGIT_VIEWBOX.width / DIGIT_VIEWBOX.height;
+  const separatorWidth = digitHeight * SEPARATOR_VIEWBOX.width / SEPARATOR_VIEWBOX.height;
+  const groupGap = unit;
+  const clockWidth = clock.reduce((sum, group) => sum + group.glyphs.length * digitWidth + groupGap * 2, 0) + separatorWidth * (clock.length - 1);
+
+  const headingSize = unit * 2.4;
+  const labelSize = unit * 2;
+  const panelPadding = unit * 3;
+  const panelWidth = clockWidth + panelPadding * 2;
+  const panelHeight = headingSize + unit + digitHeight + labelSize + unit * 2 + panelPadding * 2;
+  const panelX = (width - panelWidth) / 2;
+  const panelY = height - margin - panelHeight;
+
+  ctx.fillStyle = poster.panelBackground;
+  ctx.strokeStyle = poster.panelBorder;
+  ctx.lineWidth = Math.max(1, unit * 0.2);
+  ctx.beginPath();
+  ctx.roundRect(panelX, panelY, panelWidth, panelHeight, unit * 1.5);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.textAlign = 'center';
+  ctx.font = `${headingSize}px ${poster.headingFont}`;
+  ctx.fillStyle = poster.heading;
+  ctx.fillText(copy.overlayHeading.toUpperCase(), width / 2, panelY + panelPadding);
+
+  const digitColor = pulse ? poster.digitPulse : poster.digit;
+  const digitsY = panelY + panelPadding + headingSize + unit;
+  let x = panelX + panelPadding;
+
+  ctx.save();
+  ctx.shadowColor = poster.glow;
+  ctx.shadowBlur = pulse ? unit * 2 : unit * 0.5;
+  clock.forEach((group, index) => {
+    const groupStart = x;
+    x += groupGap;
+    group.glyphs.forEach(glyph => {
+      drawDigit(ctx, glyph, x, digitsY, digitHeight, digitColor, poster.digitInactive);
+      x += digitWidth;
+    });
+    x += groupGap;
+
+    ctx.font = `${labelSize}px 'Share Tech Mono', monospace`;
+    ctx.fillStyle = poster.label;
+    ctx.fillText(messages.clock[group.unit].toUpperCase(), (groupStart + x) / 2, digitsY + digitHeight + unit);
+
+    if (index < clock.length - 1) {
+      drawSeparator(ctx, separatorDots(clock[index + 1].unit), x, digitsY, digitHeight, digitColor);
+      x += separatorWidth;
+    }
+  });
+  ctx.restore();
+
+  if (tick) {
+    ctx.fillStyle = poster.digit;
+    ctx.fillRect(0, height - unit * 0.6, width, unit * 0.6);
+  }
+};
+
+export const createPosterCanvas = (size: PosterSize): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = POSTER_SIZES[size].width;
+  canvas.height = POSTER_SIZES[size].height;
+  return canvas;
+};
+
+interface ExportPosterOptions {
+  imageUrl: string;
+  theme: ThemeMode;
+  locale: LocaleId;
+  targetDate: Date;
+  display: ClockDisplay;
+  size: PosterSize;
+  format: PosterFormat;
+  // Moment the countdown is frozen at; defaults to now
+  at?: Date;
+}
+
+// Render the poster at the moment of export and encode it
+export const exportPoster = async ({ imageUrl, theme, locale, targetDate, display, size, format, at = new Date() }: ExportPosterOptions): Promise<Blob> => {
+  // Make sure the overlay fonts are ready before drawing text
+  await document.fonts.ready;
+  const image = await loadImage(imageUrl);
+
+  const canvas = createPosterCanvas(size);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported.");
+
+  drawPoster(ctx, { image, theme, locale, clock: clockGroups(clockMilliseconds(targetDate, at, display.countUp), display) });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Poster encoding failed."))),
+      MIME_TYPES[format],
+      0.92
+    );
+  });
+};
+
+export const posterFileName = (theme: ThemeMode, size: PosterSize, format: PosterFormat) =>
+  `protocol-${theme.toLowerCase()}-${size}.${format === 'jpeg' ? 'jpg' : 'png'}`;
+
+// Trigger a browser download for a blob
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = createObjectUrl(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => revokeObjectUrl(url), 0);
+};
@@ -0,0 +1,73 @@
+import { BriefingField, BriefingValues, ThemeMode } from "../types";
+import { getTheme } from "../themes";
+import { DEFAULT_LOCALE, getLocale, isLocaleId } from "../locales";
+
+// Templates and fragments are fixed per theme, so this only guards against
+// a theme edit producing something unreasonable
+export const MAX_PROMPT_LENGTH = 2000;
+
+const CLOCK_PATTERN = /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d$/;
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+const defaultValue = (field: BriefingField): string =>
+  field.kind === 'clock' ? field.default : field.options[0]?.value ?? '';
+
+export const isValidBriefingValue = (field: BriefingField, value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  return field.kind === 'clock' ? CLOCK_PATTERN.test(value) : field.options.some(option => option.value === value);
+};
+
+// Keep only known fields with valid values, falling back to defaults. Safe
+// to call on untrusted input (the server does).
+export const normalizeBriefing = (mode: ThemeMode, values: unknown): BriefingValues => {
+  const input = values && typeof values === 'object' ? (values as Record<string, unknown>) : {};
+  return Object.fromEntries(getTheme(mode).briefing.fields.map(field => {
+    const value = input[field.id];
+    return [field.id, isValidBriefingValue(field, value) ? value : defaultValue(field)];
+  }));
+};
+
+// Templates are English; for other locales, ask for any lettering in the
+// image in the visitor's language
+const localeNote = (locale: unknown): string => {
+  if (!isLocaleId(locale) || locale === DEFAULT_LOCALE) return '';
+  return `\nAny text in the image, such as captions, signs or on-screen labels, should be written in ${getLocale(locale).promptLanguage}.`;
+};
+
+// Fill the theme's template (single or group) from the briefing. Choices
+// contribute their fragment, never the raw value. `locale` is untrusted too.
+export const buildPrompt = (mode: ThemeMode, values: unknown, { group = false, locale }: { group?: boolean; locale?: unknown } = {}): string => {
+  const theme = getTheme(mode);
+  const briefing = normalizeBriefing(mode, values);
+  const template = group ? theme.group.prompt : theme.prompt;
+
+  const prompt = template.replace(PLACEHOLDER, (placeholder, id: string) => {
+    const field = theme.briefing.fields.find(candidate => candidate.id === id);
+    if (!field) throw new Error(`Prompt template has no briefing field for ${placeholder}.`);
+    if (field.kind === 'clock') return briefing[id];
+    return field.options.find(option => option.value === briefing[id])?.fragment ?? '';
+  }) + localeNote(locale);
+
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new Error(`Prompt is ${prompt.length} characters; the limit is ${MAX_PROMPT_LENGTH}.`);
+  }
+  return prompt;
+};
+
+// Follow-up edits are free text, so they are capped and flattened to one line
+export const MAX_EDIT_INSTRUCTION_LENGTH = 300;
+// Earlier instructions sent as context with each edit
+export const MAX_EDIT_HISTORY = 8;
+
+// Null when there is nothing usable to send
+export const normalizeEditInstruction = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const instruction = value.replace(/\s+/g, ' ').trim().slice(0, MAX_EDIT_INSTRUCTION_LENGTH);
+  return instruction || null;
+};
+
+// Keep the poster recognisably the same: only the requested change should
+// differ from the image it is sent with
+export const buildEditPrompt = (mode: ThemeMode, instruction: string, { locale }: { locale?: unknown } = {}): string =>
+  `Edit this "${getTheme(mode).share.title}" poster: ${instruction}
+Keep everything else the same, including each person's face and identity, the composition, lighting style and colour grade, unless the edit asks otherwise. Return the full edited image.` + localeNote(locale);
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { QrCode, encodeQr, qrPath, reedSolomonRemainder } from './qrCode';
+
+// Format information: 2 level bits, 3 mask bits and a BCH code, masked with
+// 0x5412, read from around the top-left finder
+const readFormat = ({ modules }: QrCode) => {
+  const bit = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+  let bits = 0;
+  for (let i = 0; i < 6; i++) bits |= bit(8, i) << i;
+  bits |= bit(8, 7) << 6;
+  bits |= bit(8, 8) << 7;
+  bits |= bit(7, 8) << 8;
+  for (let i = 9; i < 15; i++) bits |= bit(14 - i, 8) << i;
+  return bits ^ 0x5412;
+};
+
+const bchFormat = (data: number) => {
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return (data << 10) | (rem & 0x3ff);
+};
+
+const isFinder = ({ modules }: QrCode, left: number, top: number) => {
+  for (let y = 0; y < 7; y++) {
+    for (let x = 0; x < 7; x++) {
+      const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+      if (modules[top + y][left + x] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+};
+
+describe('reedSolomonRemainder', () => {
+  it('matches the published 1-M example ("HELLO WORLD")', () => {
+    // Generator polynomial for 10 ECC codewords, as powers of alpha
+    const exp: number[] = [];
+    for (let i = 0, x = 1; i < 255; i++, x = (x << 1) ^ (x & 0x80 ? 0x11d : 0)) exp.push(x);
+    const divisor = [251, 67, 46, 61, 118, 70, 64, 94, 32, 45].map(power => exp[power]);
+
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, divisor)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe('encodeQr', () => {
+  it('picks the smallest version that fits', () => {
+    // Version 1-M holds 14 bytes
+    expect(encodeQr('a'.repeat(14)).size).toBe(21);
+    expect(encodeQr('a'.repeat(15)).size).toBe(25);
+  });
+
+  it('counts UTF-8 bytes, not characters', () => {
+    expect(encodeQr('é'.repeat(7)).size).toBe(21);
+    expect(encodeQr('é'.repeat(8)).size).toBe(25);
+  });
+
+  it('fits a hand-off URL and rejects text past version 40', () => {
+    // 55 bytes: version 4 (up to 62 bytes at level M)
+    expect(encodeQr('http://192.168.1.20:3001/handoff/m8Fv4DwHrcXofd38SMMhrg').size).toBe(33);
+    expect(encodeQr('a'.repeat(2331)).size).toBe(177);
+    expect(() => encodeQr('a'.repeat(2332))).toThrow();
+  });
+
+  it('draws the finder, timing and dark modules', () => {
+    const qr = encodeQr('http://localhost:3001/handoff/abc');
+    const { size, modules } = qr;
+    expect(isFinder(qr, 0, 0)).toBe(true);
+    expect(isFinder(qr, size - 7, 0)).toBe(true);
+    expect(isFinder(qr, 0, size - 7)).toBe(true);
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it('writes valid format information for level M', () => {
+    for (const text of ['a', 'HELLO WORLD', 'https://example.com/some/longer/path?with=query']) {
+      const format = readFormat(encodeQr(text));
+      expect(format >> 13).toBe(0);
+      expect(bchFormat(format >> 10)).toBe(format);
+    }
+  });
+});
+
+describe('qrPath', () => {
+  it('draws one square per dark module, offset by the quiet zone', () => {
+    const qr = encodeQr('a');
+    const dark = qr.modules.flat().filter(Boolean).length;
+    const path = qrPath(qr);
+    expect(path.match(/M/g)).toHaveLength(dark);
+    expect(path.startsWith('M4,4h1v1h-1z')).toBe(true);
+  });
+});
@@ -0,0 +1,319 @@
+// Minimal QR code encoder (byte mode, error correction level M) so kiosk
+// hand-off links can be shown without calling an external service. Follows
+// ISO/IEC 18004: data + Reed-Solomon blocks, function patterns, then the
+// lowest-penalty of the eight masks.
+//
+// Adapted from Project Nayuki's QR Code generator library
+// (https://www.nayuki.io/page/qr-code-generator-library):
+//
+//   Copyright (c) Project Nayuki. (MIT License)
+//
+//   Permission is hereby granted, free of charge, to any person obtaining a copy of
+//   this software and associated documentation files (the "Software"), to deal in
+//   the Software without restriction, including without limitation the rights to
+//   use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+//   the Software, and to permit persons to whom the Software is furnished to do so,
+//   subject to the following conditions:
+//   - The above copyright notice and this permission notice shall be included in
+//     all copies or substantial portions of the Software.
+//   - The Software is provided "as is", without warranty of any kind, express or
+//     implied, including but not limited to the warranties of merchantability,
+//     fitness for a particular purpose and noninfringement. In no event shall the
+//     authors or copyright holders be liable for any claim, damages or other
+//     liability, whether in an action of contract, tort or otherwise, arising from,
+//     out of or in connection with the Software or the use or other dealings in the
+//     Software.
+
+// Per version (index 0 unused), for level M
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28];
+const NUM_ECC_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49];
+// Level M's two format bits
+const FORMAT_LEVEL_BITS = 0;
+const MAX_VERSION = 40;
+
+// Light margin the spec requires around the symbol, in modules
+export const QR_QUIET_ZONE = 4;
+
+export interface QrCode {
+  size: number;
+  // modules[y][x], true for dark
+  modules: boolean[][];
+}
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Modules left for data and ECC once the function patterns are placed
+const rawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number): number =>
+  Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ECC_BLOCKS[version];
+
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 10; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// GF(2^8) arithmetic over the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+export const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+// Split into blocks, append each block's ECC, then interleave
+const addEccAndInterleave = (data: number[], version: number): number[] => {
+  const numBlocks = NUM_ECC_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Placeholder so every block has the same length while interleaving
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  x => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Sequences that look like a finder pattern (1:1:3:1:1 with a light margin)
+const FINDER_LIKE = ['10111010000', '00001011101'];
+
+// Lower is easier to scan: long runs, 2x2 blocks, finder look-alikes and an
+// unbalanced dark/light ratio are all penalised
+const penalty = (modules: boolean[][]): number => {
+  const size = modules.length;
+  const lines: string[] = [];
+  for (let y = 0; y < size; y++) lines.push(modules[y].map(dark => (dark ? '1' : '0')).join(''));
+  for (let x = 0; x < size; x++) lines.push(modules.map(row => (row[x] ? '1' : '0')).join(''));
+
+  let result = 0;
+  for (const line of lines) {
+    for (const run of line.match(/0{5,}|1{5,}/g) ?? []) result += run.length - 2;
+    for (const pattern of FINDER_LIKE) {
+      for (let i = line.indexOf(pattern); i !== -1; i = line.indexOf(pattern, i + 1)) result += 40;
+    }
+  }
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (x < size - 1 && y < size - 1) {
+        const colour = modules[y][x];
+        if (colour === modules[y][x + 1] && colour === modules[y + 1][x] && colour === modules[y + 1][x + 1]) result += 3;
+      }
+    }
+  }
+  const total = size * size;
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return result;
+};
+
+const buildSymbol = (version: number, codewords: number[], mask: number): QrCode => {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  // Alignment patterns, skipping the three that would overlap finders
+  const positions = alignmentPositions(version);
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      const last = positions.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    });
+  });
+
+  // Format information: level + mask, BCH(15,5), in both copies
+  const format = (FORMAT_LEVEL_BITS << 3) | mask;
+  let remainder = format;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const formatBits = ((format << 10) | remainder) ^ 0x5412;
+  for (let i = 0; i <= 5; i++) set(8, i, getBit(formatBits, i));
+  set(8, 7, getBit(formatBits, 6));
+  set(8, 8, getBit(formatBits, 7));
+  set(7, 8, getBit(formatBits, 8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, getBit(formatBits, i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, getBit(formatBits, i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, getBit(formatBits, i));
+  set(8, size - 8, true);
+
+  // Version information (7 and up): BCH(18,6), in both corners
+  if (version >= 7) {
+    let versionRemainder = version;
+    for (let i = 0; i < 12; i++) versionRemainder = (versionRemainder << 1) ^ ((versionRemainder >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | versionRemainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, getBit(versionBits, i));
+      set(b, a, getBit(versionBits, i));
+    }
+  }
+
+  // Codewords zig-zag up and down two-module columns from the right,
+  // hopping over the vertical timing pattern
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bit < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+          bit++;
+        }
+      }
+    }
+  }
+
+  const masked = MASKS[mask];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!isFunction[y][x] && masked(x, y)) modules[y][x] = !modules[y][x];
+    }
+  }
+  return { size, modules };
+};
+
+// Encode text (UTF-8) as the smallest QR code that fits
+export const encodeQr = (text: string): QrCode => {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  const countBits = (v: number) => (v <= 9 ? 8 : 16);
+  while (4 + countBits(version) + bytes.length * 8 > dataCodewords(version) * 8) {
+    if (++version > MAX_VERSION) throw new Error("Text is too long for a QR code.");
+  }
+
+  // Mode indicator, character count, data, terminator, then pad bytes
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, countBits(version));
+  bytes.forEach(byte => append(byte, 8));
+  const capacity = dataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b, 0));
+  const codewords = addEccAndInterleave(data, version);
+
+  let best: QrCode | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const candidate = buildSymbol(version, codewords, mask);
+    const score = penalty(candidate.modules);
+    if (score < bestPenalty) {
+      best = candidate;
+      bestPenalty = score;
+    }
+  }
+  return best as QrCode;
+};
+
+// SVG path data for the dark modules, offset by the quiet zone, for a
+// viewBox of (size + 2 * QR_QUIET_ZONE) square
+export const qrPath = ({ modules }: QrCode): string => {
+  const parts: string[] = [];
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + QR_QUIET_ZONE},${y + QR_QUIET_ZONE}h1v1h-1z`);
+    });
+  });
+  return parts.join('');
+};
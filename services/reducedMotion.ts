@@ -0,0 +1,7 @@
+// Whether the visitor has asked for less motion. Read at the moment of use
+// (each tick or frame) so a change in system settings applies straight away.
+const query = typeof window !== 'undefined' && window.matchMedia
+  ? window.matchMedia('(prefers-reduced-motion: reduce)')
+  : null;
+
+export const prefersReducedMotion = (): boolean => query?.matches ?? false;
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, withRetry } from './retry';
+import { GenerationError } from './generationErrors';
+import { GenerationErrorKind } from '../types';
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 1 };
+
+const failing = (kind: GenerationErrorKind, times: number) => {
+  let calls = 0;
+  const task = vi.fn(async () => {
+    if (++calls <= times) throw new GenerationError(kind, `attempt ${calls}`);
+    return 'poster';
+  });
+  return task;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('backoffDelay', () => {
+  it('doubles the ceiling per attempt and caps it', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    const options = { baseDelayMs: 1000, maxDelayMs: 8000 };
+    expect(backoffDelay(0, options)).toBeCloseTo(1000, 0);
+    expect(backoffDelay(2, options)).toBeCloseTo(4000, 0);
+    expect(backoffDelay(5, options)).toBeCloseTo(8000, 0);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until one succeeds', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const task = failing(GenerationErrorKind.OVERLOADED, 2);
+    await expect(withRetry(task, { ...FAST, retries: 2 })).resolves.toBe('poster');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const task = failing(GenerationErrorKind.NETWORK, 5);
+    await expect(withRetry(task, { ...FAST, retries: 1 })).rejects.toMatchObject({ kind: GenerationErrorKind.NETWORK, message: 'attempt 2' });
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors that would fail the same way again', async () => {
+    const task = failing(GenerationErrorKind.AUTH, 1);
+    await expect(withRetry(task, FAST)).rejects.toMatchObject({ kind: GenerationErrorKind.AUTH });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a task that never settles, even if it ignores the signal', async () => {
+    await expect(withRetry(() => new Promise<never>(() => {}), { ...FAST, timeoutMs: 20 }))
+      .rejects.toMatchObject({ kind: GenerationErrorKind.TIMEOUT });
+  });
+
+  it("rejects with the caller's abort reason, during an attempt or a backoff wait", async () => {
+    const reason = new DOMException('Cancelled', 'AbortError');
+
+    const during = new AbortController();
+    const pending = withRetry(() => new Promise<never>(() => {}), { signal: during.signal });
+    during.abort(reason);
+    await expect(pending).rejects.toBe(reason);
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const waiting = new AbortController();
+    const task = failing(GenerationErrorKind.OVERLOADED, 1);
+    const retrying = withRetry(task, { signal: waiting.signal, baseDelayMs: 60_000, maxDelayMs: 60_000 });
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalled());
+    waiting.abort(reason);
+    await expect(retrying).rejects.toBe(reason);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort('gone');
+    const task = vi.fn(async () => 'poster');
+    await expect(withRetry(task, { signal: controller.signal })).rejects.toBe('gone');
+  });
+});
@@ -0,0 +1,94 @@
+import { GenerationErrorKind } from "../types";
+import { GenerationError, toGenerationError } from "./generationErrors";
+
+export interface RetryOptions {
+  // Additional attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Overall budget across every attempt and backoff wait
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  timeoutMs: 90000,
+};
+
+// Exponential backoff with full jitter: a random wait in [0, base * 2^attempt], capped
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>): number =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+// Resolve after `ms`, or reject with the signal's reason if it aborts first
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Reject as soon as the signal aborts, even if the task ignores it
+const raceAbort = <T>(task: Promise<T>, signal: AbortSignal): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    task.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Run `task` until it succeeds, fails with a non-retryable GenerationError,
+// runs out of attempts, or the caller's signal / overall timeout aborts it.
+// Cancellation rejects with the caller's abort reason untouched.
+export const withRetry = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  options: Partial<RetryOptions> & { signal?: AbortSignal } = {}
+): Promise<T> => {
+  const { signal, ...overrides } = options;
+  const config = { ...DEFAULT_RETRY_OPTIONS, ...overrides };
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const timer = setTimeout(() => {
+    controller.abort(new GenerationError(GenerationErrorKind.TIMEOUT, `Generation timed out after ${config.timeoutMs}ms.`));
+  }, config.timeoutMs);
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await raceAbort(task(controller.signal), controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) throw controller.signal.reason;
+
+        const generationError = toGenerationError(error);
+        if (!generationError.retryable || attempt >= config.retries) throw generationError;
+
+        const wait = backoffDelay(attempt, config);
+        console.warn(`Generation attempt ${attempt + 1} failed (${generationError.kind}), retrying in ${Math.round(wait)}ms.`);
+        await sleep(wait, controller.signal);
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
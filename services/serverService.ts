@@ -0,0 +1,69 @@
+import { EditOptions, GenerateOptions, GenerationErrorKind, ImageGenerationProvider, ThemeMode } from "../types";
+import { resizeImage, stripJpegMetadata } from "./imageUtils";
+import { GenerationError, deserializeGenerationError } from "./generationErrors";
+
+export const DEFAULT_GENERATE_ENDPOINT = '/api/generate';
+export const DEFAULT_EDIT_ENDPOINT = '/api/edit';
+
+interface ServerProviderOptions {
+  endpoint?: string;
+  editEndpoint?: string;
+}
+
+// Group photos are sent together, so shrink each further to stay under the
+// server's body size cap
+const GROUP_IMAGE_WIDTH = 768;
+
+// Calls our own /api/generate route (server/index.ts), which holds the
+// Gemini API key and runs the prompt on the server.
+const postGenerate = async (endpoint: string, payload: object, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  const body = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    throw deserializeGenerationError(body?.error, response.status);
+  }
+  if (typeof body?.imageUrl !== 'string') {
+    throw deserializeGenerationError(undefined, response.status);
+  }
+  return body.imageUrl;
+};
+
+// Canvas re-encoding already drops EXIF, but resizeImage can hand back its
+// input untouched, so strip explicitly before anything leaves the browser
+const resizeForUpload = async (base64Image: string, maxWidth?: number) => {
+  const resized = await resizeImage(base64Image, maxWidth).catch(error => {
+    throw new GenerationError(GenerationErrorKind.BAD_INPUT, "Source image could not be decoded.", { cause: error });
+  });
+  return stripJpegMetadata(resized);
+};
+
+const generateViaServer = async (endpoint: string, base64Image: string, mode: ThemeMode, { signal, briefing, locale }: GenerateOptions = {}): Promise<string> => {
+  // Resize image first to avoid payload limits (critical for mobile uploads)
+  const image = await resizeForUpload(base64Image);
+  return postGenerate(endpoint, { image, theme: mode, briefing, locale }, signal);
+};
+
+const generateGroupViaServer = async (endpoint: string, base64Images: string[], mode: ThemeMode, { signal, briefing, locale }: GenerateOptions = {}): Promise<string> => {
+  const images = await Promise.all(base64Images.map(image => resizeForUpload(image, GROUP_IMAGE_WIDTH)));
+  return postGenerate(endpoint, { images, theme: mode, briefing, locale }, signal);
+};
+
+// Generated posters come back as large PNGs, so they are shrunk like uploads
+const editViaServer = async (endpoint: string, imageUrl: string, instruction: string, mode: ThemeMode, { signal, locale, history }: EditOptions = {}): Promise<string> => {
+  const image = await resizeForUpload(imageUrl);
+  return postGenerate(endpoint, { image, instruction, history, theme: mode, locale }, signal);
+};
+
+export const createServerProvider = ({ endpoint = DEFAULT_GENERATE_ENDPOINT, editEndpoint = DEFAULT_EDIT_ENDPOINT }: ServerProviderOptions = {}): ImageGenerationProvider => ({
+  id: 'server',
+  label: 'Google Gemini',
+  generate: (base64Image, mode, options) => generateViaServer(endpoint, base64Image, mode, options),
+  generateGroup: (base64Images, mode, options) => generateGroupViaServer(endpoint, base64Images, mode, options),
+  edit: (imageUrl, instruction, mode, options) => editViaServer(editEndpoint, imageUrl, instruction, mode, options),
+});
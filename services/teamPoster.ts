@@ -0,0 +1,82 @@
+import { GenerationErrorKind, LocaleId, ThemeMode } from "../types";
+import { getTheme } from "../themes";
+import { loadImage } from "./imageUtils";
+import { GenerationError } from "./generationErrors";
+
+// How many subject photos a group protocol accepts
+export const MIN_GROUP_SUBJECTS = 2;
+export const MAX_GROUP_SUBJECTS = 6;
+
+// Same 3:4 frame the model is asked for
+const POSTER_WIDTH = 768;
+const POSTER_HEIGHT = 1024;
+const HEADER_HEIGHT = 96;
+const GUTTER = 8;
+
+// Columns x rows for each subject count, chosen so cells stay portrait
+const GRID_TEMPLATES: Record<number, { cols: number; rows: number }> = {
+  1: { cols: 1, rows: 1 },
+  2: { cols: 2, rows: 1 },
+  3: { cols: 2, rows: 2 },
+  4: { cols: 2, rows: 2 },
+  5: { cols: 3, rows: 2 },
+  6: { cols: 3, rows: 2 },
+};
+
+// Lays individual portraits out on a themed grid under the team name. Used
+// as the fallback when the model can't produce an ensemble poster, and by
+// the offline provider as its group input.
+export const composeTeamPoster = async (portraits: string[], mode: ThemeMode, locale?: LocaleId): Promise<string> => {
+  const { poster, group } = getTheme(mode, locale);
+  const images = await Promise.all(portraits.map(src => loadImage(src).catch(error => {
+    throw new GenerationError(GenerationErrorKind.BAD_INPUT, "Portrait could not be decoded.", { cause: error });
+  })));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = POSTER_WIDTH;
+  canvas.height = POSTER_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new GenerationError(GenerationErrorKind.UNKNOWN, "Canvas 2D context is not supported.", { retryable: false });
+  }
+
+  ctx.fillStyle = poster.frame;
+  ctx.fillRect(0, 0, POSTER_WIDTH, POSTER_HEIGHT);
+
+  ctx.font = `bold 44px ${poster.headingFont}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = poster.glow;
+  ctx.shadowBlur = 16;
+  ctx.fillStyle = poster.digit;
+  ctx.fillText(group.name.toUpperCase(), POSTER_WIDTH / 2, HEADER_HEIGHT / 2, POSTER_WIDTH - GUTTER * 4);
+  ctx.shadowBlur = 0;
+
+  const { cols, rows } = GRID_TEMPLATES[Math.min(images.length, MAX_GROUP_SUBJECTS)] ?? GRID_TEMPLATES[MAX_GROUP_SUBJECTS];
+  const gridHeight = POSTER_HEIGHT - HEADER_HEIGHT - GUTTER;
+  const cellWidth = (POSTER_WIDTH - GUTTER * (cols + 1)) / cols;
+  const cellHeight = Math.min((gridHeight - GUTTER * (rows - 1)) / rows, cellWidth * 4 / 3);
+  // Centre the grid vertically when the cells are capped at 3:4
+  const top = HEADER_HEIGHT + (gridHeight - (cellHeight * rows + GUTTER * (rows - 1))) / 2;
+
+  images.forEach((img, i) => {
+    const row = Math.floor(i / cols);
+    // Centre a short last row
+    const inRow = row === rows - 1 ? images.length - row * cols : cols;
+    const offset = (cols - inRow) * (cellWidth + GUTTER) / 2;
+    const x = GUTTER + offset + (i % cols) * (cellWidth + GUTTER);
+    const y = top + row * (cellHeight + GUTTER);
+
+    // Cover-fit, biased towards the top where faces are
+    const scale = Math.max(cellWidth / img.width, cellHeight / img.height);
+    const sw = cellWidth / scale;
+    const sh = cellHeight / scale;
+    ctx.drawImage(img, (img.width - sw) / 2, (img.height - sh) * 0.25, sw, sh, x, y, cellWidth, cellHeight);
+
+    ctx.strokeStyle = poster.panelBorder;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x + 1, y + 1, cellWidth - 2, cellHeight - 2);
+  });
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { TimeSource, VisibilitySource, createTicker } from './ticker';
+import { countdownStatus } from './countdownTarget';
+import { clockGroups, clockMilliseconds, DEFAULT_CLOCK_DISPLAY } from '../components/sevenSegment';
+import { CountdownTarget } from '../types';
+
+// Manually advanced clock: timers fire in order as time passes
+const fakeTime = (start: number) => {
+  let now = start;
+  let nextId = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const source: TimeSource = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      timers.set(++nextId, { at: now + ms, callback });
+      return nextId;
+    },
+    clearTimeout: handle => {
+      timers.delete(handle as number);
+    },
+  };
+
+  const advance = (ms: number) => {
+    const end = now + ms;
+    for (;;) {
+      const due = [...timers].filter(([, timer]) => timer.at <= end).sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].callback();
+    }
+    now = end;
+  };
+
+  return { source, advance, pending: () => timers.size };
+};
+
+const fakeVisibility = () => {
+  let hidden = false;
+  const listeners = new Set<() => void>();
+  const source: VisibilitySource = {
+    isHidden: () => hidden,
+    onChange: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  const setHidden = (value: boolean) => {
+    hidden = value;
+    listeners.forEach(listener => listener());
+  };
+  return { source, setHidden, listenerCount: () => listeners.size };
+};
+
+const digits = (ms: number) =>
+  clockGroups(ms, DEFAULT_CLOCK_DISPLAY).map(group => group.glyphs.join('')).join(':');
+
+describe('createTicker', () => {
+  it('fires just after each wall-clock second', () => {
+    const time = fakeTime(1_000_500);
+    const ticker = createTicker(time.source, fakeVisibility().source);
+    const ticks: number[] = [];
+    ticker.subscribe(now => ticks.push(now));
+
+    time.advance(2_600);
+    expect(ticks.map(now => Math.floor(now / 1000))).toEqual([1001, 1002, 1003]);
+    expect(ticks.every(now => now % 1000 < 50)).toBe(true);
+  });
+
+  it('stops scheduling once the last listener unsubscribes', () => {
+    const time = fakeTime(0);
+    const visibility = fakeVisibility();
+    const ticker = createTicker(time.source, visibility.source);
+    const unsubscribe = ticker.subscribe(() => {});
+    expect(time.pending()).toBe(1);
+
+    unsubscribe();
+    expect(time.pending()).toBe(0);
+    expect(visibility.listenerCount()).toBe(0);
+  });
+
+  it('pauses while hidden and catches up when shown again', () => {
+    const time = fakeTime(0);
+    const visibility = fakeVisibility();
+    const ticker = createTicker(time.source, visibility.source);
+    const ticks: number[] = [];
+    ticker.subscribe(now => ticks.push(now));
+
+    visibility.setHidden(true);
+    time.advance(60_000);
+    expect(ticks).toEqual([]);
+
+    visibility.setHidden(false);
+    expect(ticks).toEqual([60_000]);
+    time.advance(1_005);
+    expect(ticks).toEqual([60_000, 61_005]);
+  });
+});
+
+describe('countdown boundaries', () => {
+  const at = (iso: string) => Date.parse(iso);
+
+  it('rolls the day group over at midnight', () => {
+    const target = new Date(at('2025-12-25T00:00:00Z'));
+    const time = fakeTime(at('2025-12-22T23:59:58.000Z'));
+    const ticker = createTicker(time.source, fakeVisibility().source);
+    const shown: string[] = [];
+    ticker.subscribe(now => shown.push(digits(clockMilliseconds(target, new Date(now)))));
+
+    time.advance(2_005);
+    expect(shown).toEqual(['02:00:00:00', '01:23:59:59']);
+  });
+
+  it('counts the real hours across a DST change', () => {
+    // Clocks in New York go back an hour at 02:00 on 2 November 2025
+    const target: CountdownTarget = { preset: 'custom', timeZone: 'America/New_York', custom: '2025-11-02T12:00' };
+    const now = new Date(at('2025-11-01T16:00:00Z')); // 12:00 EDT the day before
+    const { targetDate } = countdownStatus(target, now);
+    expect(+targetDate).toBe(at('2025-11-02T17:00:00Z'));
+    expect(digits(clockMilliseconds(targetDate, now))).toBe('01:01:00:00');
+  });
+
+  it('holds at zero when the target is reached, or counts up if asked', () => {
+    const target: CountdownTarget = { preset: 'custom', timeZone: 'UTC', custom: '2025-12-25T00:00' };
+    const before = countdownStatus(target, new Date(at('2025-12-24T23:59:59Z')));
+    const after = countdownStatus(target, new Date(at('2025-12-25T00:00:01Z')));
+    expect(before.phase).toBe('counting');
+    expect(after.phase).toBe('celebrating');
+    expect(+after.nextChange).toBe(at('2025-12-26T00:00:00Z'));
+
+    const reached = new Date(at('2025-12-25T00:00:01Z'));
+    expect(clockMilliseconds(after.targetDate, reached)).toBe(0);
+    expect(clockMilliseconds(after.targetDate, reached, true)).toBe(1_000);
+  });
+});
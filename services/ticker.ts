@@ -0,0 +1,106 @@
+// One scheduler for every countdown on screen, so clocks never drift apart
+// and per-second side effects (tick sounds) fire exactly once.
+
+export type TickListener = (now: number) => void;
+
+// Where the ticker reads time and schedules work. Swap in a fake to step
+// through boundaries (day rollover, DST change, target reached) in tests.
+export interface TimeSource {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+// Whether ticking should be paused, e.g. while the tab is hidden
+export interface VisibilitySource {
+  isHidden: () => boolean;
+  onChange: (listener: () => void) => () => void;
+}
+
+export interface Ticker {
+  now: () => number;
+  // Listeners are called on each wall-clock second; returns an unsubscribe
+  subscribe: (listener: TickListener) => () => void;
+}
+
+export const systemTimeSource: TimeSource = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: handle => window.clearTimeout(handle as number),
+};
+
+export const documentVisibility: VisibilitySource = {
+  isHidden: () => typeof document !== 'undefined' && document.visibilityState === 'hidden',
+  onChange: listener => {
+    if (typeof document === 'undefined') return () => {};
+    document.addEventListener('visibilitychange', listener);
+    return () => document.removeEventListener('visibilitychange', listener);
+  },
+};
+
+// Land a few ms past the boundary so Math.floor() of the elapsed time has
+// already rolled over when listeners read it
+const BOUNDARY_SLACK_MS = 5;
+
+export const createTicker = (
+  time: TimeSource = systemTimeSource,
+  visibility: VisibilitySource = documentVisibility
+): Ticker => {
+  const listeners = new Set<TickListener>();
+  let timer: unknown = null;
+  let stopWatchingVisibility: (() => void) | null = null;
+
+  const emit = () => {
+    const now = time.now();
+    // Copy so listeners may unsubscribe while being notified
+    for (const listener of [...listeners]) listener(now);
+  };
+
+  const cancel = () => {
+    if (timer !== null) time.clearTimeout(timer);
+    timer = null;
+  };
+
+  // Re-align to the next second on every tick rather than trusting a fixed
+  // interval, so timer lateness never accumulates
+  const schedule = () => {
+    cancel();
+    if (listeners.size === 0 || visibility.isHidden()) return;
+    const delay = 1000 - (time.now() % 1000) + BOUNDARY_SLACK_MS;
+    timer = time.setTimeout(() => {
+      timer = null;
+      emit();
+      schedule();
+    }, delay);
+  };
+
+  const handleVisibilityChange = () => {
+    if (visibility.isHidden()) {
+      cancel();
+      return;
+    }
+    // Catch up straight away; the display may be minutes stale
+    emit();
+    schedule();
+  };
+
+  return {
+    now: () => time.now(),
+    subscribe: listener => {
+      listeners.add(listener);
+      if (!stopWatchingVisibility) stopWatchingVisibility = visibility.onChange(handleVisibilityChange);
+      if (timer === null) schedule();
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size > 0) return;
+        cancel();
+        stopWatchingVisibility?.();
+        stopWatchingVisibility = null;
+      };
+    },
+  };
+};
+
+// Shared by every Clock and the tick sound
+export const ticker = createTicker();
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { readJpegInfo } from './uploadPipeline';
+import { EOI, SOI, commentSegment, exifSegment, jfifSegment, scan, sofSegment, toBuffer } from './__fixtures__/jpeg';
+
+describe('readJpegInfo', () => {
+  it('reads the orientation and frame size', () => {
+    const info = readJpegInfo(toBuffer([...SOI, ...jfifSegment(), ...exifSegment(6), ...sofSegment(4032, 3024), ...scan(), ...EOI]));
+    expect(info).toEqual({ orientation: 6, width: 4032, height: 3024 });
+  });
+
+  it('handles big-endian EXIF', () => {
+    expect(readJpegInfo(toBuffer([...SOI, ...exifSegment(8, false), ...sofSegment(10, 20), ...EOI]))?.orientation).toBe(8);
+  });
+
+  it('defaults to upright without EXIF', () => {
+    expect(readJpegInfo(toBuffer([...SOI, ...commentSegment('hi'), ...sofSegment(640, 480), ...EOI]))).toEqual({ orientation: 1, width: 640, height: 480 });
+  });
+
+  it('ignores out-of-range orientation values', () => {
+    expect(readJpegInfo(toBuffer([...SOI, ...exifSegment(9), ...sofSegment(1, 1), ...EOI]))?.orientation).toBe(1);
+  });
+
+  it('does not mistake a Huffman table for a frame header', () => {
+    const dht = [0xff, 0xc4, 0x00, 0x07, 0x00, 0x01, 0x02, 0x03, 0x04];
+    expect(readJpegInfo(toBuffer([...SOI, ...dht, ...sofSegment(300, 200), ...EOI]))).toEqual({ orientation: 1, width: 300, height: 200 });
+  });
+
+  it('rejects anything that is not a JPEG', () => {
+    expect(readJpegInfo(toBuffer([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+    expect(readJpegInfo(toBuffer([0xff]))).toBeNull();
+  });
+
+  it('stops safely on a truncated EXIF segment', () => {
+    const truncated = exifSegment(6).slice(0, 12);
+    expect(readJpegInfo(toBuffer([...SOI, ...truncated]))).toEqual({ orientation: 1, width: 0, height: 0 });
+  });
+});
@@ -0,0 +1,207 @@
+import { UploadErrorKind } from "../types";
+import { loadImage } from "./imageUtils";
+import { createObjectUrl, revokeObjectUrl } from "./objectUrls";
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// What the drop zone advertises; HEIC only works where the browser decodes it
+export const ACCEPTED_UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+export const ACCEPTED_UPLOAD_LABEL = 'JPG, PNG, WEBP, HEIC';
+
+// Some browsers leave File.type empty for HEIC, so fall back to the extension
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+// The model is asked for 3:4 portraits, so the input is cropped to match
+export const OUTPUT_ASPECT = 3 / 4;
+// Long edge caps; the server provider resizes again before sending
+export const MAX_OUTPUT_HEIGHT = 2048;
+const MAX_SOURCE_EDGE = 3072;
+
+// A rejected upload. `message` is for logs; user-facing copy is resolved
+// per theme from `kind` in the UI layer.
+export class UploadError extends Error {
+  readonly kind: UploadErrorKind;
+
+  constructor(kind: UploadErrorKind, message: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'UploadError';
+    this.kind = kind;
+  }
+}
+
+export const toUploadError = (error: unknown): UploadError => {
+  if (error instanceof UploadError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new UploadError(UploadErrorKind.DECODE_FAILED, message, { cause: error });
+};
+
+const resolveType = (file: File): string => {
+  if (file.type) return file.type.toLowerCase();
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_TYPES[extension] ?? '';
+};
+
+const isHeic = (type: string) => type === 'image/heic' || type === 'image/heif';
+
+export interface PreparedUpload {
+  // Upright but uncropped; what the crop editor works from
+  source: string;
+  // Centre-cropped to 3:4, used until the user reframes it
+  image: string;
+}
+
+interface JpegInfo {
+  // EXIF orientation 1-8; 1 means upright
+  orientation: number;
+  // Stored pixel size, before any orientation is applied
+  width: number;
+  height: number;
+}
+
+// Reads the EXIF orientation tag and SOF dimensions from a JPEG
+export const readJpegInfo = (buffer: ArrayBuffer): JpegInfo | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  const info: JpegInfo = { orientation: 1, width: 0, height: 0 };
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) break;
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+    const segment = offset + 4;
+
+    // APP1 carrying "Exif\0\0"
+    if (marker === 0xe1 && segment + 14 <= view.byteLength && view.getUint32(segment) === 0x45786966) {
+      const tiff = segment + 6;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = ifd + 2 <= view.byteLength ? view.getUint16(ifd, little) : 0;
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          if (value >= 1 && value <= 8) info.orientation = value;
+          break;
+        }
+      }
+    }
+
+    // Start-of-frame markers (baseline, progressive, ...), excluding DHT/JPG/DAC
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc && segment + 5 <= view.byteLength) {
+      info.height = view.getUint16(segment + 1);
+      info.width = view.getUint16(segment + 3);
+      break;
+    }
+
+    offset = segment + length - 2;
+  }
+  return info;
+};
+
+// Modern browsers rotate JPEGs on decode; older ones hand back the stored
+// pixels. Orientations 5-8 swap the axes, so the decoded size tells us which
+// happened; for the rest, fall back to feature detection.
+const browserApplied = (img: HTMLImageElement, info: JpegInfo): boolean => {
+  if (info.orientation >= 5 && info.width !== info.height && info.width > 0) {
+    return img.naturalWidth === info.height;
+  }
+  return typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+};
+
+// Canvas transform that turns stored pixels upright, per EXIF orientation
+const orientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+// Draws the image upright (if the browser didn't), capping the long edge
+const drawUpright = (img: HTMLImageElement, orientation: number): HTMLCanvasElement => {
+  const swap = orientation >= 5;
+  const uprightWidth = swap ? img.naturalHeight : img.naturalWidth;
+  const uprightHeight = swap ? img.naturalWidth : img.naturalHeight;
+  const scale = Math.min(1, MAX_SOURCE_EDGE / Math.max(uprightWidth, uprightHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(uprightWidth * scale);
+  canvas.height = Math.round(uprightHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new UploadError(UploadErrorKind.DECODE_FAILED, "Canvas 2D context is not supported.");
+  ctx.scale(scale, scale);
+  ctx.transform(...orientationTransform(orientation, img.naturalWidth, img.naturalHeight));
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
+// Largest centred 3:4 window, as the default framing
+const centreCrop = (source: HTMLCanvasElement): string => {
+  const cropWidth = Math.min(source.width, source.height * OUTPUT_ASPECT);
+  const cropHeight = cropWidth / OUTPUT_ASPECT;
+  const scale = Math.min(1, MAX_OUTPUT_HEIGHT / cropHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(cropWidth * scale);
+  canvas.height = Math.round(cropHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new UploadError(UploadErrorKind.DECODE_FAILED, "Canvas 2D context is not supported.");
+  ctx.drawImage(
+    source,
+    (source.width - cropWidth) / 2, (source.height - cropHeight) / 2, cropWidth, cropHeight,
+    0, 0, canvas.width, canvas.height
+  );
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+const prepare = (img: HTMLImageElement, orientation: number): PreparedUpload => {
+  const upright = drawUpright(img, orientation);
+  return { source: upright.toDataURL('image/jpeg', 0.92), image: centreCrop(upright) };
+};
+
+// Validate, decode and orient an uploaded, dropped or pasted file, and give
+// it a default 3:4 framing. Rejects with an UploadError.
+export const prepareUpload = async (file: File): Promise<PreparedUpload> => {
+  const type = resolveType(file);
+  if (!ACCEPTED_UPLOAD_TYPES.includes(type)) {
+    throw new UploadError(UploadErrorKind.UNSUPPORTED_TYPE, `Unsupported file type "${file.type || file.name}".`);
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(UploadErrorKind.TOO_LARGE, `File is ${file.size} bytes; the limit is ${MAX_UPLOAD_BYTES}.`);
+  }
+
+  const info = type === 'image/jpeg' ? readJpegInfo(await file.arrayBuffer()) : null;
+  const url = createObjectUrl(file);
+  try {
+    const img = await loadImage(url).catch(error => {
+      throw isHeic(type)
+        ? new UploadError(UploadErrorKind.HEIC_UNSUPPORTED, "This browser cannot decode HEIC images.", { cause: error })
+        : new UploadError(UploadErrorKind.DECODE_FAILED, "Image could not be decoded.", { cause: error });
+    });
+    return prepare(img, info && !browserApplied(img, info) ? info.orientation : 1);
+  } finally {
+    revokeObjectUrl(url);
+  }
+};
+
+// Camera shots are already upright; they only need the default framing
+export const prepareCapture = async (dataUrl: string): Promise<PreparedUpload> => {
+  const img = await loadImage(dataUrl).catch(error => {
+    throw new UploadError(UploadErrorKind.DECODE_FAILED, "Captured frame could not be decoded.", { cause: error });
+  });
+  return prepare(img, 1);
+};
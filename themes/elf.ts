@@ -0,0 +1,228 @@
+import { Gift, Snowflake } from 'lucide-react';
+import { GenerationErrorKind, ThemeDefinition, UploadErrorKind } from '../types';
+import { POSTER_PALETTES } from './posterPalettes';
+
+const elf: ThemeDefinition = {
+  name: 'Elf Mode',
+  icons: {
+    toggle: Snowflake,
+    action: Gift,
+    brand: Gift,
+    ornament: Snowflake,
+  },
+  brand: {
+    layout: 'emblem',
+    primary: 'The North Pole',
+    secondary: 'Protocol',
+  },
+  ambience: {
+    // Simple CSS snow effect
+    scanlines: false,
+    className: 'opacity-20 pointer-events-none',
+    style: { backgroundImage: 'radial-gradient(white 1px, transparent 1px)', backgroundSize: '40px 40px' },
+  },
+  decoration: 'ornament',
+  palette: {
+    background: 'bg-emerald-950',
+    text: 'font-serif text-red-50',
+    accent: 'text-red-500',
+    brand: 'text-red-100',
+    brandBadge: '',
+    button: 'bg-red-700 hover:bg-red-600',
+    buttonText: 'text-white',
+    border: 'border-red-900/50',
+    container: 'bg-emerald-900/30 border-emerald-800',
+    dropZone: 'border-emerald-700',
+    dropZoneHover: 'hover:border-red-500/50 hover:bg-red-900/10',
+    dropZoneActive: 'border-red-500/50 bg-red-900/10',
+    uploadIcon: 'text-emerald-600 group-hover:text-red-500',
+    decoration: 'text-red-500',
+    selected: 'border-red-500',
+    headerBackground: 'bg-emerald-950/90',
+    toggle: 'bg-emerald-800 border-emerald-700 text-emerald-100 hover:bg-emerald-700',
+    bullet: 'bg-red-500',
+    panelBackground: 'bg-emerald-900/50',
+    panelBadge: 'bg-emerald-800 text-emerald-100 font-serif',
+    panelHeading: 'text-emerald-300 font-serif',
+    panelList: 'font-sans text-emerald-100',
+    previewFilter: '',
+    tickPing: 'bg-white',
+    tickBar: 'bg-red-500',
+    status: 'font-serif italic text-red-200',
+    countdownHeading: 'text-red-400 font-serif italic text-lg',
+    frame: 'bg-emerald-900 border-4 border-red-900',
+    feedTag: 'bg-red-600 text-white',
+    feedLocation: 'text-white/80',
+    overlayPanel: 'bg-red-900/80 border-white/30',
+    overlayHeading: 'text-white font-serif italic',
+    tagline: 'font-serif text-red-200',
+  },
+  fonts: {
+    uploadTitle: 'font-serif text-lg',
+    caption: 'font-sans',
+  },
+  copy: {
+    status: 'Sleigh_Nav: ONLINE',
+    countdownHeading: 'Time until Santa arrives...',
+    panelBadge: 'Nice List Candidate',
+    uploadTitle: 'Upload Your Photo',
+    parametersHeading: 'Workshop Parameters',
+    parameters: [
+      'Transform into Buddy the Elf',
+      "Apply 'North Pole' magic filter",
+      "Sync Countdown to Santa's Arrival",
+    ],
+    action: 'Spread Cheer',
+    processing: 'Making Toys...',
+    abort: 'Cancel Delivery',
+    variantCount: 'Number of Portraits',
+    gallery: 'Photo Album: Pick Your Favourite',
+    queued: 'In the Queue',
+    history: "Santa's Scrapbook",
+    historyEmpty: 'No portraits yet. Spread some cheer!',
+    clearHistory: 'Clear Scrapbook',
+    targetLabel: 'Counting down to',
+    layout: 'Camera Layout',
+    overlayHeading: 'Countdown to Christmas',
+    tagline: 'The best way to spread Christmas cheer is singing loud for all to hear.',
+  },
+  overlay: {
+    feedTag: 'SANTA CAM',
+    feedLocation: 'WORKSHOP // SECTOR 7',
+    camLabels: ['SANTA CAM // SECTOR 7', 'CHIMNEY CAM // SECTOR 2', 'SLEIGH CAM // SECTOR 5', 'WORKSHOP CAM // SECTOR 1'],
+  },
+  celebration: {
+    title: 'Merry Christmas!',
+    subtitle: "Santa has arrived. Everyone's on the Nice List!",
+    dismiss: 'Back to the Workshop',
+  },
+  camera: {
+    viewfinder: 'snow',
+    open: 'Take a Photo',
+    capture: 'Say Cheese!',
+    retake: 'Try Again',
+    confirm: 'Use This One',
+    unavailable: "Couldn't open the camera. Check permissions or upload a photo instead.",
+  },
+  privacy: {
+    title: 'Before We Begin',
+    accept: 'Sounds Good!',
+    decline: 'Not Now',
+    withdraw: 'Withdraw Consent',
+  },
+  crop: {
+    adjust: 'Adjust Photo',
+    apply: 'Looks Good!',
+    rotateLeft: 'Turn Left',
+    rotateRight: 'Turn Right',
+    reset: 'Start Over',
+  },
+  share: {
+    title: 'The North Pole Protocol',
+    text: 'I made this with The North Pole Protocol!',
+  },
+  adjustments: {
+    title: 'Workshop Touch-Ups',
+    placeholder: 'What should the elves change? e.g. "add snow on the shoulders"',
+    apply: 'Send to the Elves',
+    working: 'Elves at work...',
+  },
+  errors: {
+    title: 'Workshop Mishap',
+    retry: 'Try Again',
+    messages: {
+      [GenerationErrorKind.SAFETY_BLOCK]: "Santa's helpers can't use that photo. Please try a different one.",
+      [GenerationErrorKind.MODEL_REFUSAL]: 'The elves got confused by that photo. Try a clearer picture of your face.',
+      [GenerationErrorKind.AUTH]: 'The workshop door is locked: the API key is invalid or expired.',
+      [GenerationErrorKind.OVERLOADED]: 'The workshop is swamped with toy orders! Please try again.',
+      [GenerationErrorKind.BAD_INPUT]: 'That photo got tangled in the tinsel. Please upload a JPG or PNG.',
+      [GenerationErrorKind.NETWORK]: 'The sleigh lost its signal. Check your connection and try again.',
+      [GenerationErrorKind.TIMEOUT]: 'The reindeer took too long to get back. Please try again.',
+      [GenerationErrorKind.UNKNOWN]: 'Something went wrong at the North Pole. Please try again.',
+    },
+    upload: {
+      [UploadErrorKind.UNSUPPORTED_TYPE]: "That's not a photo! Try a JPG, PNG, WebP or HEIC.",
+      [UploadErrorKind.TOO_LARGE]: 'That photo is too big for the sleigh. Keep it to 5MB or less.',
+      [UploadErrorKind.HEIC_UNSUPPORTED]: "This browser can't open HEIC photos. Save it as a JPG and try again.",
+      [UploadErrorKind.DECODE_FAILED]: "We couldn't open that photo. Try another one!",
+    },
+    export: "The elves couldn't wrap your poster. Please try again.",
+  },
+  clock: {
+    active: 'fill-red-600',
+    pulse: 'fill-red-400',
+    inactive: 'fill-red-900/10',
+    glow: 'drop-shadow(0 0 1px rgba(220, 38, 38, 0.2))',
+    pulseGlow: 'drop-shadow(0 0 8px rgba(220, 38, 38, 0.5))',
+    labelLarge: 'text-red-800 font-serif font-bold',
+    labelSmall: 'text-red-800/80',
+  },
+  sound: {
+    tick: 'sleighBells',
+    sting: 'fanfare',
+  },
+  poster: POSTER_PALETTES.ELF,
+  group: {
+    name: "Santa's Workshop Crew",
+    addSubject: 'Add Elf',
+    prompt: `
+        Create a movie poster featuring every person from the input images together as Santa's workshop crew of Christmas Elves (Buddy the Elf style).
+
+        Visual Style Requirements:
+        - Composition: An ensemble poster with all subjects in one frame, each clearly recognisable, the first subject in front.
+        - Costume: Green tunics with white fur collars, yellow tights.
+        - Background: {scene}.
+        - Props: {props}.
+        - Atmosphere: Bright, joyful, high-key lighting, festive colors (Green, Red, Gold).
+        - Expression: Cheerful and full of Christmas spirit.
+
+        Ensure the output is a high-quality, realistic image.
+      `,
+  },
+  offline: {
+    tint: 'rgba(220, 38, 38, 0.2)',
+    scanlines: false,
+    stampColor: '#ffffff',
+    stampText: 'DEC 25',
+  },
+  briefing: {
+    heading: 'Workshop Order',
+    fields: [
+      {
+        kind: 'choice',
+        id: 'scene',
+        label: 'Scene',
+        options: [
+          { value: 'workshop', label: 'North Pole Workshop', fragment: 'A magical, snowy North Pole workshop full of toys' },
+          { value: 'gimbels', label: 'Gimbels', fragment: "The Christmas toy department of Gimbels department store in New York, with a Santa's grotto" },
+          { value: 'centralPark', label: 'Central Park', fragment: "Central Park in the snow at night, with Santa's sleigh flying overhead" },
+        ],
+      },
+      {
+        kind: 'choice',
+        id: 'props',
+        label: 'Props',
+        options: [
+          { value: 'candyCanes', label: 'Candy Canes', fragment: 'Holding an armful of candy canes' },
+          { value: 'snowball', label: 'Snowball', fragment: 'Winding up to throw a snowball' },
+          { value: 'etchASketch', label: 'Etch A Sketch', fragment: 'Proudly showing off an Etch A Sketch drawing' },
+          { value: 'syrupSpaghetti', label: 'Syrup Spaghetti', fragment: 'A plate of spaghetti smothered in maple syrup and sweets' },
+        ],
+      },
+    ],
+  },
+  prompt: `
+        Create a movie poster featuring the person from the input image dressed as a Christmas Elf (Buddy the Elf style).
+        
+        Visual Style Requirements:
+        - Costume: Green tunic with white fur collar, yellow tights.
+        - Background: {scene}.
+        - Props: {props}.
+        - Atmosphere: Bright, joyful, high-key lighting, festive colors (Green, Red, Gold).
+        - Expression: Cheerful and full of Christmas spirit.
+        
+        Ensure the output is a high-quality, realistic image.
+      `,
+};
+
+export default elf;
@@ -0,0 +1,86 @@
+import { ThemeBranding, ThemeDefinition, ThemeTranslation } from '../types';
+import { DEFAULT_LOCALE, LocaleId, getLocale } from '../locales';
+import { THEME_ORDER, ThemeMode } from './registry';
+import twentyFour from './twentyFour';
+import elf from './elf';
+
+export { DEFAULT_THEME, THEME_ORDER, isThemeMode } from './registry';
+export type { ThemeMode } from './registry';
+
+// Every persona's definition, one per id in THEME_ORDER (themes/registry.ts)
+export const THEMES: Record<ThemeMode, ThemeDefinition> = {
+  '24': twentyFour,
+  ELF: elf,
+};
+
+// Swap a theme's text for a translation, keeping everything structural
+const translateTheme = (theme: ThemeDefinition, translation: ThemeTranslation): ThemeDefinition => ({
+  ...theme,
+  name: translation.name,
+  copy: translation.copy,
+  overlay: translation.overlay,
+  celebration: translation.celebration,
+  camera: { ...theme.camera, ...translation.camera },
+  privacy: translation.privacy,
+  crop: translation.crop,
+  share: translation.share,
+  adjustments: translation.adjustments,
+  errors: translation.errors,
+  group: { ...theme.group, ...translation.group },
+  offline: { ...theme.offline, ...translation.offline },
+  briefing: {
+    heading: translation.briefing.heading,
+    fields: theme.briefing.fields.map(field => {
+      const text = translation.briefing.fields[field.id];
+      if (!text) return field;
+      return field.kind === 'clock'
+        ? { ...field, label: text.label }
+        : { ...field, label: text.label, options: field.options.map(option => ({ ...option, label: text.options?.[option.value] ?? option.label })) };
+    }),
+  },
+});
+
+// Replace venue-specific labels, whatever the language
+const brandTheme = (theme: ThemeDefinition, branding: ThemeBranding): ThemeDefinition => ({
+  ...theme,
+  brand: {
+    ...theme.brand,
+    primary: branding.primary ?? theme.brand.primary,
+    secondary: branding.secondary ?? theme.brand.secondary,
+  },
+  overlay: {
+    feedTag: branding.feedTag ?? theme.overlay.feedTag,
+    feedLocation: branding.feedLocation ?? theme.overlay.feedLocation,
+    camLabels: branding.camLabels ?? theme.overlay.camLabels,
+  },
+  group: { ...theme.group, name: branding.teamName ?? theme.group.name },
+});
+
+let branding: ThemeBranding = {};
+const resolved = new Map<string, ThemeDefinition>();
+
+// Set once a kiosk config loads; every getTheme call after that is branded
+export const setThemeBranding = (next: ThemeBranding) => {
+  branding = next;
+  resolved.clear();
+};
+
+// Theme definitions are written in English; other locales overlay their
+// catalogue's copy for the theme (see locales/)
+export const getTheme = (mode: ThemeMode, locale: LocaleId = DEFAULT_LOCALE): ThemeDefinition => {
+  const key = `${mode}:${locale}`;
+  let theme = resolved.get(key);
+  if (!theme) {
+    const translation = getLocale(locale).themes?.[mode];
+    theme = brandTheme(translation ? translateTheme(THEMES[mode], translation) : THEMES[mode], branding);
+    resolved.set(key, theme);
+  }
+  return theme;
+};
+
+// Used by the header toggle to cycle through the registry. THEME_ORDER is
+// explicit, since numeric-looking keys like '24' don't keep insertion order.
+export const nextTheme = (mode: ThemeMode): ThemeMode => {
+  const index = THEME_ORDER.indexOf(mode);
+  return THEME_ORDER[(index + 1) % THEME_ORDER.length];
+};
@@ -0,0 +1,37 @@
+import type { PosterPalette, ThemeMode } from '../types';
+
+// Poster colours and fonts for each theme. They're plain CSS, so they live
+// apart from the definitions (which import lucide-react icons, and React with
+// them) for the <protocol-countdown> widget to use on its own.
+export const POSTER_PALETTES: Record<ThemeMode, PosterPalette> = {
+  '24': {
+    frame: '#000000',
+    feedTagBackground: '#eab308',
+    feedTagText: '#000000',
+    feedLocation: 'rgba(234, 179, 8, 0.8)',
+    panelBackground: 'rgba(0, 0, 0, 0.6)',
+    panelBorder: 'rgba(234, 179, 8, 0.3)',
+    heading: '#ca8a04',
+    headingFont: "'Share Tech Mono', monospace",
+    digit: '#eab308',
+    digitPulse: '#fde047',
+    digitInactive: 'rgba(113, 63, 18, 0.1)',
+    glow: 'rgba(234, 179, 8, 0.5)',
+    label: '#a16207',
+  },
+  ELF: {
+    frame: '#064e3b',
+    feedTagBackground: '#dc2626',
+    feedTagText: '#ffffff',
+    feedLocation: 'rgba(255, 255, 255, 0.8)',
+    panelBackground: 'rgba(127, 29, 29, 0.8)',
+    panelBorder: 'rgba(255, 255, 255, 0.3)',
+    heading: '#ffffff',
+    headingFont: "italic Georgia, serif",
+    digit: '#dc2626',
+    digitPulse: '#f87171',
+    digitInactive: 'rgba(127, 29, 29, 0.1)',
+    glow: 'rgba(220, 38, 38, 0.2)',
+    label: '#991b1b',
+  },
+};
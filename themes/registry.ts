@@ -0,0 +1,12 @@
+// Theme ids, apart from the definitions (which import lucide-react icons, and
+// React with them) so icon-free code like the countdown widget can check them.
+// Adding a theme means adding its id here, in toggle order, plus its
+// definition file and an entry in THEMES (themes/index.ts).
+export const THEME_ORDER = ['24', 'ELF'] as const;
+
+export type ThemeMode = (typeof THEME_ORDER)[number];
+
+export const DEFAULT_THEME: ThemeMode = '24';
+
+export const isThemeMode = (value: unknown): value is ThemeMode =>
+  typeof value === 'string' && (THEME_ORDER as readonly string[]).includes(value);
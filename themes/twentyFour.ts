@@ -0,0 +1,237 @@
+import { ShieldCheck } from 'lucide-react';
+import { GenerationErrorKind, ThemeDefinition, UploadErrorKind } from '../types';
+import { POSTER_PALETTES } from './posterPalettes';
+
+const twentyFour: ThemeDefinition = {
+  name: '24 Mode',
+  icons: {
+    toggle: ShieldCheck,
+    action: ShieldCheck,
+  },
+  brand: {
+    layout: 'badge',
+    primary: '24',
+    secondary: 'Christmas Protocol',
+  },
+  ambience: {
+    scanlines: true,
+    className: 'opacity-10',
+    style: { backgroundImage: 'linear-gradient(#333 1px, transparent 1px), linear-gradient(90deg, #333 1px, transparent 1px)', backgroundSize: '40px 40px' },
+  },
+  decoration: 'brackets',
+  palette: {
+    background: 'bg-black',
+    text: 'font-mono text-white',
+    accent: 'text-yellow-500',
+    brand: 'text-yellow-500',
+    brandBadge: 'bg-yellow-500 text-black shadow-[0_0_10px_rgba(234,179,8,0.5)]',
+    button: 'bg-yellow-600 hover:bg-yellow-500',
+    buttonText: 'text-black',
+    border: 'border-gray-800',
+    container: 'bg-gray-900/30 border-gray-800',
+    dropZone: 'border-gray-700',
+    dropZoneHover: 'hover:border-yellow-500/50 hover:bg-yellow-900/5',
+    dropZoneActive: 'border-yellow-500/50 bg-yellow-900/5',
+    uploadIcon: 'text-gray-600 group-hover:text-yellow-500',
+    decoration: 'border-yellow-500',
+    selected: 'border-yellow-500',
+    headerBackground: 'bg-black/90',
+    toggle: 'bg-gray-800 border-gray-700 text-gray-400 hover:text-yellow-500 hover:border-yellow-500',
+    bullet: 'bg-yellow-500',
+    panelBackground: 'bg-black',
+    panelBadge: 'bg-gray-800 text-gray-400 font-mono tracking-wider',
+    panelHeading: 'text-gray-500 uppercase tracking-widest font-mono',
+    panelList: 'font-mono text-gray-400',
+    previewFilter: 'grayscale',
+    tickPing: 'bg-yellow-500 shadow-[0_0_50px_20px_rgba(234,179,8,0.8)]',
+    tickBar: 'bg-yellow-500',
+    status: 'font-mono text-yellow-600',
+    countdownHeading: 'text-red-600 uppercase tracking-[0.5em] text-xs font-bold',
+    frame: 'bg-black border-4 border-gray-900',
+    feedTag: 'bg-yellow-500 text-black',
+    feedLocation: 'text-yellow-500/80',
+    overlayPanel: 'bg-black/60 border-yellow-500/30',
+    overlayHeading: 'text-yellow-600 font-mono uppercase tracking-[0.5em] text-[8px] md:text-[10px]',
+    tagline: 'font-mono text-gray-500',
+  },
+  fonts: {
+    uploadTitle: 'font-mono text-sm uppercase tracking-widest',
+    caption: 'font-mono',
+  },
+  copy: {
+    status: 'SECURE_CONNECTION: ESTABLISHED',
+    countdownHeading: 'Time Remaining Until Target',
+    panelBadge: 'Subject Intel Source',
+    uploadTitle: 'Upload Subject Image',
+    parametersHeading: 'Protocol Parameters',
+    parameters: [
+      'Reconstruct Subject identity to CTU Agent profile',
+      'Apply Season 1 atmospheric filters (Blue/Noir)',
+      'Synchronize Christmas Countdown Timer',
+    ],
+    action: 'Initiate Protocol',
+    processing: 'Processing Intel...',
+    abort: 'Abort Mission',
+    variantCount: 'Surveillance Angles',
+    gallery: 'Contact Sheet // Select Primary Feed',
+    queued: 'Awaiting Uplink',
+    history: 'Case Files',
+    historyEmpty: 'No case files on record.',
+    clearHistory: 'Purge All Files',
+    targetLabel: 'Target',
+    layout: 'Feed Layout',
+    overlayHeading: 'Time Remaining',
+    tagline: 'The following takes place between now and Christmas Day.',
+  },
+  overlay: {
+    feedTag: 'LIVE FEED',
+    feedLocation: 'CAM_2A // SECTOR 4',
+    camLabels: ['CAM_01 // SECTOR 4', 'CAM_02 // SECTOR 7', 'CAM_03 // SECTOR 2', 'CAM_04 // SECTOR 9'],
+  },
+  celebration: {
+    title: 'Protocol Complete',
+    subtitle: 'Target reached. Christmas has been secured.',
+    dismiss: 'Stand Down',
+  },
+  camera: {
+    viewfinder: 'reticle',
+    open: 'Live Capture',
+    capture: 'Acquire Target',
+    retake: 'Reacquire',
+    confirm: 'Confirm Subject',
+    unavailable: 'Camera feed unavailable. Check permissions or upload intel instead.',
+  },
+  privacy: {
+    title: 'Clearance Required',
+    accept: 'Grant Clearance',
+    decline: 'Stand Down',
+    withdraw: 'Revoke Clearance',
+  },
+  crop: {
+    adjust: 'Adjust Framing',
+    apply: 'Lock Target',
+    rotateLeft: 'Rotate Left',
+    rotateRight: 'Rotate Right',
+    reset: 'Reset',
+  },
+  share: {
+    title: 'The 24 Christmas Protocol',
+    text: 'The following takes place between now and Christmas Day.',
+  },
+  adjustments: {
+    title: 'Field Adjustments',
+    placeholder: 'Describe the adjustment, e.g. "make it night-time"',
+    apply: 'Transmit',
+    working: 'Applying adjustment...',
+  },
+  errors: {
+    title: 'Transmission Failed',
+    retry: 'Retry Transmission',
+    messages: {
+      [GenerationErrorKind.SAFETY_BLOCK]: 'Security Protocol Engaged: Image content flagged by safety filters. Please try a different photo.',
+      [GenerationErrorKind.MODEL_REFUSAL]: 'Request Denied: The model refused the prompt. Try a clearer face photo.',
+      [GenerationErrorKind.AUTH]: 'Access Denied: API Key invalid or expired.',
+      [GenerationErrorKind.OVERLOADED]: 'Network Congestion: CTU Servers overloaded. Please retry.',
+      [GenerationErrorKind.BAD_INPUT]: 'Data Corruption: Invalid image format or prompt rejected.',
+      [GenerationErrorKind.NETWORK]: 'Uplink Lost: Unable to reach CTU servers. Check your connection.',
+      [GenerationErrorKind.TIMEOUT]: 'Clock Ran Out: CTU servers did not respond in time. Please retry.',
+      [GenerationErrorKind.UNKNOWN]: 'System Failure: Unknown error occurred during generation.',
+    },
+    upload: {
+      [UploadErrorKind.UNSUPPORTED_TYPE]: 'Unrecognised Intel: Use a JPG, PNG, WebP or HEIC photo.',
+      [UploadErrorKind.TOO_LARGE]: 'Payload Too Large: Photos must be 5MB or smaller.',
+      [UploadErrorKind.HEIC_UNSUPPORTED]: 'Encrypted Format: This browser cannot decode HEIC. Export the photo as JPG and try again.',
+      [UploadErrorKind.DECODE_FAILED]: 'Corrupted Intel: The photo could not be read. Try a different file.',
+    },
+    export: 'Export Failed: The poster could not be rendered. Please retry.',
+  },
+  clock: {
+    active: 'fill-yellow-500',
+    pulse: 'fill-yellow-300',
+    inactive: 'fill-yellow-900/10',
+    glow: 'drop-shadow(0 0 2px rgba(234,179,8,0.5))',
+    pulseGlow: 'drop-shadow(0 0 8px rgba(234,179,8,0.9))',
+    labelLarge: 'text-yellow-700',
+    labelSmall: 'text-yellow-700/80',
+  },
+  sound: {
+    tick: 'doubleBeep',
+    sting: 'dramatic',
+  },
+  poster: POSTER_PALETTES['24'],
+  group: {
+    name: 'CTU Field Team',
+    addSubject: 'Add Operative',
+    prompt: `
+        Create a cinematic DVD cover art in the style of the TV show "24", featuring every person from the input images together as a CTU field team.
+
+        Visual Style Requirements:
+        - Composition: An ensemble poster with all subjects in one frame, each clearly recognisable, the first subject as team lead in front.
+        - Setting: {setting}.
+        - Color Grading: Cool blue/cyan and black, high contrast, gritty texture.
+        - Aesthetics: Digital noise, scanlines, split-screen composition elements.
+        - Outfit: Everyone in a {outfit}.
+        - Subjects: Everyone should look {mood}.
+        - Overlay: Include a digital clock reading {clock} in the background.
+
+        Ensure the output is a high-quality, realistic image.
+      `,
+  },
+  offline: {
+    tint: 'rgba(0, 120, 180, 0.35)',
+    scanlines: true,
+    stampColor: '#eab308',
+    stampText: '23:59:59',
+  },
+  briefing: {
+    heading: 'Mission Briefing',
+    fields: [
+      {
+        kind: 'choice',
+        id: 'setting',
+        label: 'Location',
+        options: [
+          { value: 'ctu', label: 'CTU HQ', fragment: 'CTU Los Angeles headquarters, banks of monitors and glass-walled offices' },
+          { value: 'rooftop', label: 'LA Rooftop', fragment: 'a Los Angeles rooftop at night, helicopter searchlights sweeping the skyline' },
+          { value: 'interrogation', label: 'Interrogation Room', fragment: 'a stark interrogation room with a single overhead light and a two-way mirror' },
+        ],
+      },
+      { kind: 'clock', id: 'clock', label: 'Clock Reading', default: '23:59:59' },
+      {
+        kind: 'choice',
+        id: 'outfit',
+        label: 'Outfit',
+        options: [
+          { value: 'tactical', label: 'Tactical', fragment: 'tactical vest with an earpiece and holstered sidearm' },
+          { value: 'suit', label: 'Suit & Tie', fragment: 'dark suit and tie with a coiled earpiece' },
+          { value: 'field', label: 'Field Jacket', fragment: 'worn leather field jacket over a dark shirt' },
+        ],
+      },
+      {
+        kind: 'choice',
+        id: 'mood',
+        label: 'Mood',
+        options: [
+          { value: 'intense', label: 'Intense', fragment: 'intense, focused, and ready for action' },
+          { value: 'defiant', label: 'Defiant', fragment: 'defiant, jaw set, refusing to back down' },
+          { value: 'exhausted', label: 'Hour 23', fragment: 'exhausted but determined at the end of a very long day' },
+        ],
+      },
+    ],
+  },
+  prompt: `
+        Create a cinematic DVD cover art in the style of the TV show "24", featuring the person from the input image as a special agent.
+        
+        Visual Style Requirements:
+        - Setting: {setting}.
+        - Color Grading: Cool blue/cyan and black, high contrast, gritty texture.
+        - Aesthetics: Digital noise, scanlines, split-screen composition elements.
+        - Outfit: A {outfit}.
+        - Subject: The person should look {mood}.
+        - Overlay: Include a digital clock reading {clock} in the background.
+        
+        Ensure the output is a high-quality, realistic image.
+      `,
+};
+
+export default twentyFour;
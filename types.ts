@@ -1,8 +1,45 @@
-export interface CountdownTime {
-  days: number;
-  hours: number;
-  minutes: number;
-  seconds: number;
+import type { CSSProperties } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { ThemeMode } from './themes';
+import type { LocaleId } from './locales';
+
+// Units the seven-segment clock can show, largest first
+export type ClockUnit = 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds' | 'tenths';
+
+// How the clock splits the time: DD:HH:MM:SS, total HH:MM:SS, or WW:D:HH:MM:SS
+export type ClockFormat = 'days' | 'hours' | 'weeks';
+
+// Clock display options. Encoded in the URL alongside the target.
+export interface ClockDisplay {
+  format: ClockFormat;
+  // Adds a tenths-of-a-second digit after the seconds
+  tenths: boolean;
+  // Once the target passes, count the time since it instead of holding at zero
+  countUp: boolean;
+  // Leading zeros of the first group are left dark ( 7:04:...) rather than lit (07:04:...)
+  blankLeadingZeros: boolean;
+}
+
+export type CountdownPreset = 'christmasEve' | 'christmasDay' | 'newYear' | 'custom';
+
+// Poster export aspect presets (see services/posterExport.ts)
+export type PosterSize = 'story' | 'square' | 'wide';
+
+// What the countdown counts to. Encoded in the URL so shared links match.
+export interface CountdownTarget {
+  preset: CountdownPreset;
+  // IANA zone the target's wall time is in, e.g. "Europe/London"
+  timeZone: string;
+  // Wall time "YYYY-MM-DDTHH:mm" for the custom preset
+  custom?: string;
+}
+
+export interface CountdownStatus {
+  phase: 'counting' | 'celebrating';
+  // The occurrence being counted to, or the one being celebrated
+  targetDate: Date;
+  // When the status will next change on its own
+  nextChange: Date;
 }
 
 export enum AppState {
@@ -12,9 +49,498 @@ export enum AppState {
   ERROR = 'ERROR'
 }
 
+// Discriminates why a generation attempt failed
+export enum GenerationErrorKind {
+  SAFETY_BLOCK = 'SAFETY_BLOCK',
+  MODEL_REFUSAL = 'MODEL_REFUSAL',
+  AUTH = 'AUTH',
+  OVERLOADED = 'OVERLOADED',
+  BAD_INPUT = 'BAD_INPUT',
+  NETWORK = 'NETWORK',
+  TIMEOUT = 'TIMEOUT',
+  UNKNOWN = 'UNKNOWN'
+}
+
+// One person in a group protocol's line-up
+export interface GroupSubject {
+  id: string;
+  // Data URL of the uploaded photo
+  image: string;
+}
+
+// Why an uploaded, dropped or pasted photo was rejected
+export enum UploadErrorKind {
+  UNSUPPORTED_TYPE = 'UNSUPPORTED_TYPE',
+  TOO_LARGE = 'TOO_LARGE',
+  HEIC_UNSUPPORTED = 'HEIC_UNSUPPORTED',
+  DECODE_FAILED = 'DECODE_FAILED'
+}
+
+export type VariantStatus = 'queued' | 'running' | 'done' | 'failed';
+
+// One of the N images requested by a single "Initiate Protocol" run
+export interface GenerationVariant {
+  id: string;
+  status: VariantStatus;
+  imageUrl?: string;
+  errorKind?: GenerationErrorKind;
+}
+
+// One pick in a mission briefing choice, and the prompt text it stands for
+export interface BriefingOption {
+  value: string;
+  label: string;
+  fragment: string;
+}
+
+// A mission briefing control. Values fill `{id}` placeholders in the
+// theme's prompt templates (see services/promptBuilder.ts).
+export type BriefingField =
+  // The first option is the default
+  | { kind: 'choice'; id: string; label: string; options: BriefingOption[] }
+  // A 24-hour HH:MM:SS time
+  | { kind: 'clock'; id: string; label: string; default: string };
+
+// Chosen value per field id
+export type BriefingValues = Record<string, string>;
+
+// A generated protocol as stored in the local history (IndexedDB)
 export interface GeneratedImage {
+  id: string;
+  imageUrl: string;
+  prompt: string;
+  // Mission briefing the prompt was built from; missing on older records
+  briefing?: BriefingValues;
+  // Small JPEG of the uploaded photo
+  sourceThumbnail: string;
+  theme: ThemeMode;
+  createdAt: number;
+  // Approximate stored size in bytes, used for quota eviction
+  size: number;
+}
+
+export type { ThemeMode } from './themes';
+export type { LocaleId } from './locales';
+
+export type ImageProviderId = 'server' | 'mock';
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  briefing?: BriefingValues;
+  // Language for any text the model paints into the image
+  locale?: LocaleId;
+}
+
+export interface EditOptions {
+  signal?: AbortSignal;
+  locale?: LocaleId;
+  // Earlier instructions in this edit session, oldest first
+  history?: string[];
+}
+
+// One entry in a poster's edit stack. The first has no instruction.
+export interface PosterVersion {
+  id: string;
   imageUrl: string;
+  instruction: string | null;
+}
+
+// A backend that turns an uploaded photo into a themed poster.
+// Resolves with a data URL for the generated image.
+export interface ImageGenerationProvider {
+  id: ImageProviderId;
+  label: string;
+  generate: (base64Image: string, mode: ThemeMode, options?: GenerateOptions) => Promise<string>;
+  // Several subjects in one ensemble poster (group protocol)
+  generateGroup: (base64Images: string[], mode: ThemeMode, options?: GenerateOptions) => Promise<string>;
+  // Follow-up change to a generated poster, e.g. "make it night-time"
+  edit: (imageUrl: string, instruction: string, mode: ThemeMode, options?: EditOptions) => Promise<string>;
+}
+
+// Synthesised voices available to themes (see services/audioEngine.ts)
+export type TickVoice = 'doubleBeep' | 'sleighBells';
+export type StingVoice = 'dramatic' | 'fanfare';
+
+// Tailwind class strings for the seven-segment clock and its labels
+export interface ClockPalette {
+  active: string;
+  pulse: string;
+  inactive: string;
+  // CSS filter values applied to the digit SVG
+  glow: string;
+  pulseGlow: string;
+  labelLarge: string;
+  labelSmall: string;
+}
+
+// CSS colour strings, since canvas can't read Tailwind classes
+export interface PosterPalette {
+  frame: string;
+  feedTagBackground: string;
+  feedTagText: string;
+  feedLocation: string;
+  panelBackground: string;
+  panelBorder: string;
+  heading: string;
+  headingFont: string;
+  digit: string;
+  digitPulse: string;
+  digitInactive: string;
+  glow: string;
+  label: string;
+}
+
+// Everything a persona needs to restyle the app and drive generation.
+// Register new personas in themes/index.ts.
+export interface ThemeDefinition {
+  // Label shown on the theme toggle, e.g. "24 Mode"
+  name: string;
+  icons: {
+    toggle: LucideIcon;
+    action: LucideIcon;
+    // Shown next to the title when brand.layout is 'emblem'
+    brand?: LucideIcon;
+    // Shown on the upload panel when decoration is 'ornament'
+    ornament?: LucideIcon;
+  };
+  brand: {
+    layout: 'badge' | 'emblem';
+    primary: string;
+    secondary: string;
+  };
+  ambience: {
+    scanlines: boolean;
+    className: string;
+    style: CSSProperties;
+  };
+  decoration: 'brackets' | 'ornament';
+  palette: {
+    background: string;
+    text: string;
+    accent: string;
+    brand: string;
+    brandBadge: string;
+    button: string;
+    buttonText: string;
+    border: string;
+    container: string;
+    dropZone: string;
+    dropZoneHover: string;
+    // While a file is dragged over the upload panel
+    dropZoneActive: string;
+    uploadIcon: string;
+    decoration: string;
+    selected: string;
+    headerBackground: string;
+    toggle: string;
+    bullet: string;
+    panelBackground: string;
+    panelBadge: string;
+    panelHeading: string;
+    panelList: string;
+    previewFilter: string;
+    tickPing: string;
+    tickBar: string;
+    status: string;
+    countdownHeading: string;
+    frame: string;
+    feedTag: string;
+    feedLocation: string;
+    overlayPanel: string;
+    overlayHeading: string;
+    tagline: string;
+  };
+  fonts: {
+    uploadTitle: string;
+    caption: string;
+  };
+  copy: {
+    status: string;
+    countdownHeading: string;
+    panelBadge: string;
+    uploadTitle: string;
+    parametersHeading: string;
+    parameters: string[];
+    action: string;
+    processing: string;
+    abort: string;
+    variantCount: string;
+    gallery: string;
+    queued: string;
+    history: string;
+    historyEmpty: string;
+    clearHistory: string;
+    targetLabel: string;
+    layout: string;
+    overlayHeading: string;
+    tagline: string;
+  };
+  overlay: {
+    feedTag: string;
+    feedLocation: string;
+    // Per-panel labels for the split-screen layout, in panel order
+    camLabels: string[];
+  };
+  celebration: {
+    title: string;
+    subtitle: string;
+    dismiss: string;
+  };
+  // Live photo capture (components/CameraCapture.tsx)
+  camera: {
+    viewfinder: 'reticle' | 'snow';
+    open: string;
+    capture: string;
+    retake: string;
+    confirm: string;
+    unavailable: string;
+  };
+  // Consent gate before the first upload (components/ConsentGate.tsx)
+  privacy: {
+    title: string;
+    accept: string;
+    decline: string;
+    withdraw: string;
+  };
+  // Crop and framing step (components/CropEditor.tsx)
+  crop: {
+    adjust: string;
+    apply: string;
+    rotateLeft: string;
+    rotateRight: string;
+    reset: string;
+  };
+  share: {
+    title: string;
+    text: string;
+  };
+  // Follow-up edits to a finished poster (components/FieldAdjustments.tsx)
+  adjustments: {
+    title: string;
+    placeholder: string;
+    apply: string;
+    working: string;
+  };
+  errors: {
+    title: string;
+    retry: string;
+    messages: Record<GenerationErrorKind, string>;
+    upload: Record<UploadErrorKind, string>;
+    // Poster or clip download failed
+    export: string;
+  };
+  clock: ClockPalette;
+  sound: {
+    tick: TickVoice;
+    sting: StingVoice;
+  };
+  // Canvas colours and fonts for the composited poster export
+  poster: PosterPalette;
+  // Group protocol: several subjects in one team poster
+  group: {
+    name: string;
+    addSubject: string;
+    // Template sent with 2+ subject photos as inline parts
+    prompt: string;
+  };
+  // Canvas styling used by the offline mock provider
+  offline: {
+    tint: string;
+    scanlines: boolean;
+    stampColor: string;
+    stampText: string;
+  };
+  // Mission briefing form shown in the parameters panel
+  briefing: {
+    heading: string;
+    fields: BriefingField[];
+  };
+  // Template; `{id}` placeholders are filled from the briefing fields
   prompt: string;
 }
 
-export type ThemeMode = '24' | 'ELF';
+// Interface strings that aren't part of a theme's voice: controls, labels
+// and notices. `{name}` placeholders are filled by formatMessage.
+export interface UiMessages {
+  language: string;
+  // Label under each clock group
+  clock: Record<ClockUnit, string>;
+  clockDisplay: {
+    formats: Record<ClockFormat, string>;
+    tenths: string;
+    countUp: string;
+    blankLeadingZeros: string;
+  };
+  // Screen reader text
+  a11y: {
+    // {time}, e.g. "5 days, 4 hours"
+    remaining: string;
+    elapsed: string;
+    loading: string;
+    // {current}, {next}
+    themeToggle: string;
+    uploadZone: string;
+  };
+  presets: Record<CountdownPreset, string>;
+  posterSizes: Record<PosterSize, string>;
+  upload: {
+    // {types}, {size}
+    formats: string;
+    // {count}, {max}, {min}
+    roster: string;
+    on: string;
+    off: string;
+  };
+  controls: {
+    close: string;
+    cancel: string;
+    dismiss: string;
+    open: string;
+    download: string;
+    delete: string;
+    remove: string;
+    moveEarlier: string;
+    moveLater: string;
+    share: string;
+    newProtocol: string;
+    mute: string;
+    unmute: string;
+    volume: string;
+    switchCamera: string;
+    closeCamera: string;
+    zoom: string;
+  };
+  images: {
+    preview: string;
+    result: string;
+    source: string;
+    captured: string;
+    cropSource: string;
+    surveillance: string;
+    closeUp: string;
+    // {number}
+    subject: string;
+    // {label}
+    variant: string;
+  };
+  export: {
+    clip: string;
+  };
+  share: {
+    copied: string;
+    unsupported: string;
+  };
+  adjustments: {
+    undo: string;
+    redo: string;
+    compare: string;
+    previous: string;
+    current: string;
+    original: string;
+    // {number}
+    version: string;
+  };
+  // Saved posters drawer (components/HistoryDrawer.tsx)
+  history: {
+    // {action}, the theme's clear-history label
+    confirmClear: string;
+    failed: string;
+  };
+  kiosk: {
+    start: string;
+    handoffTitle: string;
+    handoffHint: string;
+    // {minutes}
+    handoffExpires: string;
+    handoffFailed: string;
+    // Shown before anything is uploaded
+    handoffOffer: string;
+    handoffAction: string;
+    // The page the QR code opens on the guest's phone (server/handoff.ts)
+    handoffPageTitle: string;
+    handoffImage: string;
+    handoffDownload: string;
+    handoffExpired: string;
+  };
+  // Consent gate body; deliberately plain rather than themed
+  privacy: {
+    intro: string;
+    stripped: string;
+    history: string;
+    // {duration}
+    sharedDevice: string;
+    // Kiosks only; {duration}
+    handoff: string;
+    // Where uploaded photos go with each provider
+    providers: Record<ImageProviderId, string>;
+  };
+}
+
+// A theme's text in another language. Mirrors the text fields of
+// ThemeDefinition; palettes, briefing values and prompts stay on the theme.
+export interface ThemeTranslation {
+  name: string;
+  copy: ThemeDefinition['copy'];
+  overlay: ThemeDefinition['overlay'];
+  celebration: ThemeDefinition['celebration'];
+  camera: Omit<ThemeDefinition['camera'], 'viewfinder'>;
+  privacy: ThemeDefinition['privacy'];
+  crop: ThemeDefinition['crop'];
+  share: ThemeDefinition['share'];
+  adjustments: ThemeDefinition['adjustments'];
+  errors: ThemeDefinition['errors'];
+  group: Pick<ThemeDefinition['group'], 'name' | 'addSubject'>;
+  // Field labels by field id, and choice labels by option value
+  briefing: {
+    heading: string;
+    fields: Record<string, { label: string; options?: Record<string, string> }>;
+  };
+  offline: Pick<ThemeDefinition['offline'], 'stampText'>;
+}
+
+// One UI language. Register new locales in locales/index.ts.
+export interface LocaleDefinition {
+  // Endonym shown in the language switcher, e.g. "Español"
+  name: string;
+  dir: 'ltr' | 'rtl';
+  // The language's English name, for the note in the model prompt
+  promptLanguage: string;
+  messages: UiMessages;
+  // Null for English, the language the theme definitions are written in
+  themes: Record<ThemeMode, ThemeTranslation> | null;
+}
+
+// Venue text that replaces a theme's own labels (e.g. "CTU", "SECTOR 7")
+export interface ThemeBranding {
+  primary?: string;
+  secondary?: string;
+  feedTag?: string;
+  feedLocation?: string;
+  camLabels?: string[];
+  teamName?: string;
+}
+
+// Kiosk settings, read from the JSON file the server's KIOSK_CONFIG names
+export interface KioskConfig {
+  // Locks the theme and hides the toggle
+  theme: ThemeMode | null;
+  // Inactivity before the session resets to the attract loop
+  idleSeconds: number;
+  branding: ThemeBranding;
+  attract: {
+    // Example poster URLs cycled between countdown slides
+    samples: string[];
+    slideSeconds: number;
+  };
+  // How long a poster sent to a phone stays on the server. Set by the
+  // server from KIOSK_HANDOFF_MINUTES, not by the config file.
+  handoffMinutes: number;
+}
+
+// A poster parked on the server for a guest to pick up by QR code
+export interface HandoffTicket {
+  // Deletes it again (DELETE /api/handoff/<token>)
+  token: string;
+  url: string;
+  expiresAt: number;
+}
@@ -8,11 +8,24 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Generation runs on the local API server so the key stays off the client
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 3001}`,
+        },
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          // embed.html is the iframe route for the countdown widget
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            embed: path.resolve(__dirname, 'embed.html'),
+          },
+        },
+      },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER || 'server'),
+        'process.env.EVENT_IDLE_SECONDS': JSON.stringify(env.EVENT_IDLE_SECONDS || '0')
       },
       resolve: {
         alias: {
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+// Standalone <protocol-countdown> script for other sites:
+// dist/widget/protocol-countdown.js. Built after the app, so it must not
+// empty dist. A classic script (IIFE) loads cross-origin without CORS.
+export default defineConfig({
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist/widget',
+    emptyOutDir: false,
+    lib: {
+      entry: 'widget.ts',
+      name: 'ProtocolCountdown',
+      formats: ['iife'],
+      fileName: () => 'protocol-countdown.js',
+    },
+  },
+});
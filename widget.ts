@@ -0,0 +1,4 @@
+import { defineCountdownElement } from './components/countdownElement';
+
+// Entry for the standalone embed script (see vite.widget.config.ts)
+defineCountdownElement();